@@ -0,0 +1,463 @@
+import * as d3 from "d3";
+import type { Selection, ScaleOrdinal } from "d3";
+import type {
+  TimeVizSeriesConfig,
+  ChartDataRow,
+  MarginConfig,
+  XScaleType,
+  YAxisPosition,
+} from "./types";
+import { createXScale, getXTickFormat, isXValue } from "./x-scale";
+import type { XScale } from "./x-scale";
+
+/**
+ * @module d3-time-viz-overview
+ * @description
+ * This module provides a function to create the overview strip of a time visualization chart.
+ * It draws every series across the full extent of the data, with a brush window
+ * that selects the range shown in the main chart.
+ */
+
+/**
+ * Flags the SVG elements whose brush is being dragged by the user.
+ * The overview is re-rendered while the brush moves, and moving the brush
+ * programmatically in the middle of a gesture would fight with the pointer.
+ */
+const isBrushing = d3.local<boolean>();
+
+/**
+ * Creates the overview strip of a time visualization chart using D3.js.
+ *
+ * @returns {Function} A function that can be called with a D3 selection to render the overview.
+ */
+export const createTimeVizOverview = () => {
+  // Centralized default values
+  const defaultConfig = {
+    xTicks: 5,
+    margin: {
+      top: 4,
+      right: 40,
+      bottom: 20,
+      left: 40,
+    } as MarginConfig,
+    formatXAxis: "%Y-%m-%d",
+    isCurved: false,
+    xScaleType: "time" as XScaleType,
+    utc: false,
+  };
+
+  let series: TimeVizSeriesConfig[];
+  let data: ChartDataRow[];
+  let colorScale: d3.ScaleOrdinal<string, string>;
+  let isCurved: boolean = defaultConfig.isCurved;
+  let xTicks: number = defaultConfig.xTicks;
+  let margin: MarginConfig = { ...defaultConfig.margin };
+  let formatXAxis: string = defaultConfig.formatXAxis;
+  let xSerie: (d: ChartDataRow) => Date | number;
+  let xScaleType: XScaleType = defaultConfig.xScaleType;
+  let utc: boolean = defaultConfig.utc;
+  let range: [Date | number, Date | number] | null = null;
+  let onRangeChange: ((range: [Date | number, Date | number]) => void) | null =
+    null;
+  let innerWidth: number = 0;
+  let innerHeight: number = 0;
+  let xScale: XScale;
+  let yScale: d3.ScaleLinear<number, number>;
+  let yScaleRight: d3.ScaleLinear<number, number> | null = null;
+
+  /**
+   * Creates a Y scale that fits the values of the given series.
+   * @param {TimeVizSeriesConfig[]} fields - The series drawn against the scale.
+   * @returns {d3.ScaleLinear<number, number> | null} The Y scale, or `null` if a value is not a number.
+   */
+  const createYScale = (
+    fields: TimeVizSeriesConfig[]
+  ): d3.ScaleLinear<number, number> | null => {
+    const [yMin, yMax] = d3.extent(
+      data
+        .flatMap((d) => fields.map(({ accessor }) => accessor(d)))
+        .filter((value): value is number => Number.isFinite(value))
+    );
+    if (!(typeof yMin === "number" && typeof yMax === "number")) return null;
+    return d3
+      .scaleLinear()
+      .domain([yMin, yMax])
+      .range([innerHeight + margin.top, margin.top]);
+  };
+
+  /**
+   * Renders the X axis of the overview.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const renderXAxis = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    const xAxis = d3
+      .axisBottom(xScale)
+      .ticks(xTicks)
+      .tickFormat(getXTickFormat(xScaleType, formatXAxis, xScale, xTicks, utc));
+
+    selection
+      .selectAll("g.x.axis")
+      .data([null])
+      .join("g")
+      .attr("class", "x axis")
+      .attr("transform", `translate(0, ${innerHeight + margin.top})`)
+      .call(xAxis as any);
+  };
+
+  /**
+   * Renders the series lines of the overview.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const renderSeries = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    const createLine = (axis?: YAxisPosition) => {
+      const scale = axis === "right" && yScaleRight ? yScaleRight : yScale;
+      const line = d3
+        .line<{ x: number | Date; y: number | null | undefined }>()
+        .defined(({ y }) => typeof y === "number" && Number.isFinite(y))
+        .x(({ x }) => xScale(x))
+        .y(({ y }) => scale(y ?? 0));
+      isCurved && line.curve(d3.curveCatmullRom);
+      return line;
+    };
+
+    selection
+      .selectAll(".series")
+      .data([null])
+      .join("g")
+      .attr("class", "series")
+      .selectAll<SVGPathElement, TimeVizSeriesConfig>("path.serie")
+      .data(series)
+      .join("path")
+      .attr("class", "serie")
+      .attr("data-label", ({ label }) => label)
+      .style("stroke", ({ color, label }) => color || colorScale(label))
+      .attr("d", ({ accessor, axis }) =>
+        createLine(axis)(
+          data.map((row) => ({ x: xSerie(row), y: accessor(row) }))
+        )
+      );
+  };
+
+  /**
+   * Renders the brush window of the overview.
+   * @description
+   * The window shows the current range and can be dragged or resized to select a new one.
+   * Clicking outside of the window selects the full extent of the data.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const renderBrush = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    const node = selection.node();
+    if (!node) return;
+
+    const brush = d3
+      .brushX<null>()
+      .extent([
+        [margin.left, margin.top],
+        [innerWidth + margin.left, innerHeight + margin.top],
+      ])
+      .on("start", ({ sourceEvent }: d3.D3BrushEvent<null>) => {
+        sourceEvent && isBrushing.set(node, true);
+      })
+      .on("brush end", (event: d3.D3BrushEvent<null>) => {
+        if (!event.sourceEvent) return;
+        event.type === "end" && isBrushing.set(node, false);
+        const [xMin, xMax] = xScale.domain();
+        const [x0, x1] = (event.selection as [number, number] | null) ?? [];
+        onRangeChange?.(
+          x0 === undefined || x1 === undefined
+            ? [xMin, xMax]
+            : [xScale.invert(x0), xScale.invert(x1)]
+        );
+      });
+
+    const brushGroup = selection
+      .selectAll<SVGGElement, null>("g.brush")
+      .data([null])
+      .join("g")
+      .attr("class", "brush")
+      .call(brush);
+
+    if (isBrushing.get(node)) return;
+    const [xMin, xMax] = xScale.range();
+    const [start, end] = (range ?? xScale.domain()).map((d) =>
+      Math.max(xMin, Math.min(xScale(d), xMax))
+    );
+    brushGroup.call(brush.move, [start, end]);
+  };
+
+  const validateSetup = (): boolean => {
+    if (!series || !Array.isArray(series) || !series.length) {
+      console.warn(
+        "[d3-time-viz-overview] Overview series is missing or empty."
+      );
+      return false;
+    }
+    if (!data || !Array.isArray(data) || !data.length) {
+      console.warn("[d3-time-viz-overview] Overview data is missing or empty.");
+      return false;
+    }
+    if (typeof xSerie !== "function") {
+      console.warn("[d3-time-viz-overview] xSerie accessor is missing.");
+      return false;
+    }
+    if (!colorScale || typeof colorScale !== "function") {
+      console.warn("[d3-time-viz-overview] colorScale is missing or invalid.");
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * The main overview function that renders the overview strip.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   * @example
+   * ```ts
+   * const svg = d3.select("svg.overview");
+   * const overview = createTimeVizOverview();
+   * svg.call(overview);
+   * ```
+   */
+  const overview = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ) => {
+    if (!validateSetup()) {
+      console.warn("[d3-time-viz-overview] Overview setup is invalid.");
+      return;
+    }
+
+    const { width = 0, height = 0 } =
+      selection.node()?.getBoundingClientRect() || {};
+    selection.attr("viewBox", `0 0 ${width} ${height}`);
+    innerWidth = width - (margin.left + margin.right);
+    innerHeight = height - (margin.top + margin.bottom);
+    if (innerWidth <= 0 || innerHeight <= 0) {
+      console.warn(
+        "[d3-time-viz-overview] SVG element has non-positive dimensions."
+      );
+      return;
+    }
+
+    const xValues = data.map(xSerie);
+    if (!xValues.every((x) => isXValue(x, xScaleType))) {
+      console.warn(
+        xScaleType === "time"
+          ? "[d3-time-viz-overview] xSerie must return Date objects for all data points."
+          : "[d3-time-viz-overview] xSerie must return numbers for all data points."
+      );
+      return;
+    }
+    const [xMin = 0, xMax = 0] = d3.extent(xValues, (x) => +x);
+    xScale = createXScale(
+      xScaleType,
+      [xMin, xMax],
+      [margin.left, innerWidth + margin.left],
+      utc
+    );
+
+    const rightSeries = series.filter(({ axis }) => axis === "right");
+    const leftSeries = series.filter(({ axis }) => axis !== "right");
+    const leftScale = createYScale(
+      leftSeries.length ? leftSeries : rightSeries
+    );
+    const rightScale = rightSeries.length ? createYScale(rightSeries) : null;
+    if (!leftScale || (rightSeries.length && !rightScale)) {
+      console.warn(
+        "[d3-time-viz-overview] Series accessors must return numbers for all data points."
+      );
+      return;
+    }
+    yScale = leftScale;
+    yScaleRight = rightScale;
+
+    selection.call(renderXAxis).call(renderSeries).call(renderBrush);
+  };
+
+  /**
+   * Sets the x-axis accessor function.
+   * @param accessor - A function that extracts the x value from a data row.
+   * @returns The overview instance for chaining.
+   */
+  overview.xSerie = (accessor: (d: ChartDataRow) => Date | number) => {
+    if (typeof accessor !== "function") {
+      console.warn("xSerie accessor must be a function");
+      return overview;
+    }
+    xSerie = accessor;
+    return overview;
+  };
+
+  /**
+   * Sets the series configuration.
+   * @param fields - An array of series configurations.
+   * @returns The overview instance for chaining.
+   */
+  overview.series = (fields: TimeVizSeriesConfig[]) => {
+    if (!Array.isArray(fields)) {
+      console.warn("series must be an array");
+      return overview;
+    }
+    series = fields;
+    return overview;
+  };
+
+  /**
+   * Sets the data for the overview.
+   * @param dataset - An array of data rows.
+   * @returns The overview instance for chaining.
+   */
+  overview.data = (dataset: ChartDataRow[]) => {
+    if (!Array.isArray(dataset)) {
+      console.warn("data must be an array");
+      return overview;
+    }
+    data = dataset;
+    return overview;
+  };
+
+  /**
+   * Sets the color scale for the overview.
+   * @param color - A D3 scaleOrdinal function for mapping data values to colors.
+   * @returns The overview instance for chaining.
+   */
+  overview.colorScale = (color: ScaleOrdinal<string, string>) => {
+    if (typeof color !== "function") {
+      console.warn("colorScale must be a valid D3 scaleOrdinal");
+      return overview;
+    }
+    colorScale = color;
+    return overview;
+  };
+
+  /**
+   * Sets the curve interpolation for the line series.
+   * @param bool - A boolean indicating whether the line should be curved.
+   * @returns The overview instance for chaining.
+   */
+  overview.isCurved = (bool: boolean) => {
+    if (typeof bool !== "boolean") {
+      console.warn("isCurved must be a boolean");
+      return overview;
+    }
+    isCurved = bool;
+    return overview;
+  };
+
+  /**
+   * Sets the number of ticks on the x-axis.
+   * @param quantity - The number of ticks.
+   * @returns The overview instance for chaining.
+   */
+  overview.xTicks = (quantity: number) => {
+    if (typeof quantity !== "number" || quantity < 0) {
+      console.warn("xTicks must be a non-negative number");
+      return overview;
+    }
+    xTicks = quantity;
+    return overview;
+  };
+
+  /**
+   * Sets the margin for the overview.
+   * @param marg - An object specifying the margin values.
+   * @returns The overview instance for chaining.
+   */
+  overview.margin = (marg: MarginConfig) => {
+    if (typeof marg !== "object" || marg == null) {
+      console.warn("margin must be an object");
+      return overview;
+    }
+    margin = { ...margin, ...marg };
+    return overview;
+  };
+
+  /**
+   * Sets the format for the x-axis ticks.
+   * @param format - A string specifying the tick format.
+   * @returns The overview instance for chaining.
+   */
+  overview.formatXAxis = (format: string) => {
+    if (typeof format !== "string") {
+      console.warn("formatXAxis must be a string");
+      return overview;
+    }
+    formatXAxis = format;
+    return overview;
+  };
+
+  /**
+   * Sets the type of the x-axis.
+   * @param type - `"time"` for dates, or `"linear"` for plain numbers.
+   * @returns The overview instance for chaining.
+   */
+  overview.xScaleType = (type: XScaleType) => {
+    if (!["time", "linear"].includes(type)) {
+      console.warn('xScaleType must be "time" or "linear"');
+      return overview;
+    }
+    xScaleType = type;
+    return overview;
+  };
+
+  /**
+   * Sets whether the time scale and the tick format use UTC instead of the local time.
+   * @param bool - A boolean indicating whether to use UTC.
+   * @returns The overview instance for chaining.
+   */
+  overview.utc = (bool: boolean) => {
+    if (typeof bool !== "boolean") {
+      console.warn("utc must be a boolean");
+      return overview;
+    }
+    utc = bool;
+    return overview;
+  };
+
+  /**
+   * Sets the range shown by the brush window.
+   * @param domain - The start and end values, or `null` to select the full extent.
+   * @returns The overview instance for chaining.
+   */
+  overview.range = (domain: [Date | number, Date | number] | null) => {
+    if (
+      domain !== null &&
+      !(
+        Array.isArray(domain) &&
+        domain.length === 2 &&
+        domain.every((d) => d instanceof Date || typeof d === "number")
+      )
+    ) {
+      console.warn("range must be an array of two dates or numbers, or null");
+      return overview;
+    }
+    range = domain;
+    return overview;
+  };
+
+  /**
+   * Sets the callback called when the user moves or resizes the brush window.
+   * @param callback - A function that receives the new start and end values.
+   * @returns The overview instance for chaining.
+   */
+  overview.onRangeChange = (
+    callback: (range: [Date | number, Date | number]) => void
+  ) => {
+    if (typeof callback !== "function") {
+      console.warn("onRangeChange must be a function");
+      return overview;
+    }
+    onRangeChange = callback;
+    return overview;
+  };
+
+  return overview;
+};
@@ -1,7 +1,26 @@
 import * as d3 from "d3";
 import type { Selection, ScaleOrdinal } from "d3";
-import type { TimeVizSeriesConfig, ChartDataRow, MarginConfig } from "./types";
+import type {
+  TimeVizSeriesConfig,
+  ChartDataRow,
+  ChartRenderer,
+  DownsampleMethod,
+  GapPolicy,
+  LegendPosition,
+  MarginConfig,
+  SeriesMarkType,
+  StackMode,
+  StepPosition,
+  TimeVizAnnotation,
+  TooltipMode,
+  XScaleType,
+  YAxisPosition,
+} from "./types";
 import type { TipVizTooltip } from "tipviz";
+import { lttb, minMax } from "./downsample";
+import { createLegendClickHandlers } from "./legend-click";
+import { createXScale, getXTickFormat, isXValue } from "./x-scale";
+import type { XScale } from "./x-scale";
 
 /**
  * @module d3-time-viz
@@ -10,6 +29,107 @@ import type { TipVizTooltip } from "tipviz";
  * It allows for multiple series, custom colors, and various configurations.
  */
 
+interface SeriePoint {
+  x: Date | number;
+  y: number | null;
+  y0?: number;
+}
+
+type DefinedPoint = SeriePoint & { y: number };
+
+interface StackedValue {
+  y0: number;
+  y1: number;
+  cumulative: number;
+  share: number;
+}
+
+interface SerieDatum {
+  label: string;
+  color: string;
+  type: SeriesMarkType;
+  step?: StepPosition;
+  axis?: YAxisPosition;
+  baseline: number;
+  points: SeriePoint[];
+}
+
+/**
+ * Checks whether a value returned by a series accessor is a usable number.
+ * @param value - The value returned by the accessor.
+ * @returns `true` if the value is a finite number.
+ */
+const isValidNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Checks whether a point of a series has a value to draw.
+ * @param point - The point of the series.
+ * @returns `true` if the point has a value.
+ */
+const isDefinedPoint = (point: SeriePoint): point is DefinedPoint =>
+  point.y !== null;
+
+/**
+ * Creates a type guard for the annotations of a type.
+ * @param type - The type of the annotations.
+ * @returns A function that checks whether an annotation is of the type.
+ */
+const isAnnotationType =
+  <T extends TimeVizAnnotation["type"]>(type: T) =>
+  (
+    annotation: TimeVizAnnotation
+  ): annotation is Extract<TimeVizAnnotation, { type: T }> =>
+    annotation.type === type;
+
+/**
+ * Returns the class attribute of an annotation.
+ * @param annotation - The annotation.
+ * @returns The classes of the annotation, with the custom `className` if any.
+ */
+const getAnnotationClass = ({ type, className }: TimeVizAnnotation): string =>
+  ["annotation", type, className].filter(Boolean).join(" ");
+
+const STEP_CURVES: Record<StepPosition, d3.CurveFactory> = {
+  before: d3.curveStepBefore,
+  after: d3.curveStepAfter,
+  middle: d3.curveStep,
+};
+
+const SCATTER_RADIUS = 3;
+
+// Fill opacity of the areas, the same as the `.serie.area` style of the SVG renderer
+const AREA_OPACITY = 0.4;
+
+// Share of a time bucket filled by its bars, the rest is the gap between buckets
+const BAR_PADDING_RATIO = 0.8;
+
+// Layout of the legend items, in pixels
+const LEGEND_SQUARE_SIZE = 12;
+const LEGEND_LABEL_GAP = 6;
+const LEGEND_ITEM_GAP = 16;
+const LEGEND_ROW_HEIGHT = 20;
+const LEGEND_PADDING = 8;
+
+/**
+ * Keeps the x domain at the start of a zoom gesture for each SVG element.
+ * The chart can be re-created while the gesture is running, so the domain
+ * must live with the element instead of the chart closure.
+ */
+const zoomStartDomain = d3.local<Array<Date | number>>();
+
+/**
+ * Keeps the X value and the series focused with the keyboard for each SVG element,
+ * so the keyboard cursor resumes where it was after the chart is re-created.
+ */
+const keyboardCursor = d3.local<{ x: Date | number; label: string }>();
+
+// Share of the rows skipped by PageUp and PageDown
+const KEYBOARD_PAGE_RATIO = 0.1;
+
+// Factor applied to the visible range by the + and - keys
+const KEYBOARD_ZOOM_FACTOR = 2;
+
 /**
  * Creates a time visualization chart using D3.js.
  * The chart supports multiple series, custom colors, and various configurations.
@@ -22,6 +142,7 @@ export const createTimeVizChart = () => {
     transitionTime: 0,
     xTicks: 5,
     yTicks: 5,
+    yTicksRight: 5,
     margin: {
       top: 30,
       right: 40,
@@ -30,13 +151,25 @@ export const createTimeVizChart = () => {
     } as MarginConfig,
     formatXAxis: "%Y-%m-%d",
     formatYAxis: ".2f",
+    formatYAxisRight: ".2f",
     yAxisLabel: "",
+    yAxisRightLabel: "",
     xAxisLabel: "",
     isCurved: false,
     isStatic: false,
+    stackMode: "none" as StackMode,
+    gapPolicy: "break" as GapPolicy,
+    gapThreshold: 0,
+    renderer: "svg" as ChartRenderer,
+    downsample: "none" as DownsampleMethod,
+    xScaleType: "time" as XScaleType,
+    utc: false,
+    legendPosition: "top" as Exclude<LegendPosition, "slot">,
+    tooltipMode: "point" as TooltipMode,
   };
 
   let tooltip: TipVizTooltip;
+  let tooltipMode: TooltipMode = defaultConfig.tooltipMode;
   let series: TimeVizSeriesConfig[];
   let data: ChartDataRow[];
   let colorScale: d3.ScaleOrdinal<string, string>;
@@ -45,16 +178,55 @@ export const createTimeVizChart = () => {
   let transitionTime: number = defaultConfig.transitionTime;
   let xTicks: number = defaultConfig.xTicks;
   let yTicks: number = defaultConfig.yTicks;
-  let margin: MarginConfig = { ...defaultConfig.margin };
+  let yTicksRight: number = defaultConfig.yTicksRight;
+  let baseMargin: MarginConfig = { ...defaultConfig.margin };
+  // The margins of the current render, with the space taken by the legend
+  let margin: MarginConfig = { ...baseMargin };
+  let legendMargin: MarginConfig = { top: 0, right: 0, bottom: 0, left: 0 };
   let formatXAxis: string = defaultConfig.formatXAxis;
   let formatYAxis: string = defaultConfig.formatYAxis;
+  let formatYAxisRight: string = defaultConfig.formatYAxisRight;
   let xSerie: (d: ChartDataRow) => Date | number;
   let innerWidth: number = 0;
   let innerHeight: number = 0;
-  let xScale: d3.ScaleTime<number, number>;
+  let xScale: XScale;
+  let xScaleType: XScaleType = defaultConfig.xScaleType;
+  let utc: boolean = defaultConfig.utc;
+  let datumX = (x: Date | number): Date | number => x;
+  let legendPosition: Exclude<LegendPosition, "slot"> =
+    defaultConfig.legendPosition;
+  let legendSeries: TimeVizSeriesConfig[] | null = null;
+  let onLegendToggle: ((label: string, isolate: boolean) => void) | null = null;
+  const legendClick = createLegendClickHandlers((label, isolate) =>
+    onLegendToggle?.(label, isolate)
+  );
   let yScale: d3.ScaleLinear<number, number>;
+  let yScaleRight: d3.ScaleLinear<number, number> | null = null;
+  let hasLeftAxis: boolean = true;
+  let stackMode: StackMode = defaultConfig.stackMode;
+  let stackedValues = new Map<string, StackedValue[]>();
+  let gapPolicy: GapPolicy = defaultConfig.gapPolicy;
+  let gapThreshold: number = defaultConfig.gapThreshold;
+  let seriesValues = new Map<string, Array<number | null>>();
+  let renderer: ChartRenderer = defaultConfig.renderer;
+  let canvas: HTMLCanvasElement | null = null;
+  let xValues: Array<Date | number> = [];
+  let downsample: DownsampleMethod = defaultConfig.downsample;
+  let annotations: TimeVizAnnotation[] = [];
+  let bandWidth: number = 0;
+  let barLabels: string[] = [];
   let yAxisLabel: string = defaultConfig.yAxisLabel;
+  let yAxisRightLabel: string = defaultConfig.yAxisRightLabel;
   let xAxisLabel: string = defaultConfig.xAxisLabel;
+  let xDomain: [Date | number, Date | number] | null = null;
+  let onRangeChange: ((range: [Date | number, Date | number]) => void) | null =
+    null;
+  let onCursorMove:
+    ((row: ChartDataRow | null, rowIndex: number | null) => void) | null = null;
+  let onPointClick:
+    ((row: ChartDataRow, rowIndex: number, label: string) => void) | null =
+    null;
+  let onAnnounce: ((message: string) => void) | null = null;
 
   /**
    * Utility function to get the size of the SVG element.
@@ -71,6 +243,210 @@ export const createTimeVizChart = () => {
     return { width, height };
   };
 
+  /**
+   * Returns the Y scale of the axis a series belongs to.
+   * @description
+   * When every series is on the right axis, the left scale shares its domain,
+   * so the grid lines still match the visible axis.
+   * @param {YAxisPosition} [axis] - The axis of the series, left by default.
+   * @returns {d3.ScaleLinear<number, number>} The Y scale of the axis.
+   */
+  const getYScale = (axis?: YAxisPosition): d3.ScaleLinear<number, number> =>
+    axis === "right" && yScaleRight ? yScaleRight : yScale;
+
+  /**
+   * Creates a Y scale that fits the values of the given series.
+   * @param {TimeVizSeriesConfig[]} fields - The series drawn against the scale.
+   * @returns {d3.ScaleLinear<number, number> | null} The Y scale, or `null` if a value is not a number.
+   */
+  const createYScale = (
+    fields: TimeVizSeriesConfig[]
+  ): d3.ScaleLinear<number, number> | null => {
+    const yVals = stackedValues.size
+      ? fields.flatMap(({ label }) =>
+          (stackedValues.get(label) ?? []).flatMap(({ y0, y1 }) => [y0, y1])
+        )
+      : fields.flatMap(({ label }) =>
+          (seriesValues.get(label) ?? []).filter(isValidNumber)
+        );
+    // Areas and bars are drawn from their baseline, so it must stay visible
+    const baselines = fields
+      .filter(({ type }) => type === "area" || type === "bar")
+      .map(({ baseline }) => baseline ?? 0);
+
+    const [yMin, yMax] = d3.extent(yVals);
+    if (!(typeof yMin === "number" && typeof yMax === "number")) return null;
+    const [domainMin, domainMax] = d3.extent([yMin, yMax, ...baselines]);
+    return d3
+      .scaleLinear()
+      .domain([domainMin ?? yMin, domainMax ?? yMax])
+      .range([innerHeight + margin.top, margin.top])
+      .nice();
+  };
+
+  /**
+   * Resolves the values of a series according to its gap policy.
+   * @description
+   * Missing values (`null`, `undefined` or `NaN`) are kept as `null` by the
+   * `"break"` and `"connect"` policies, replaced by zero by the `"zero"` policy
+   * and by the last known value by the `"carry"` policy.
+   * @param {TimeVizSeriesConfig} serie - The series configuration.
+   * @returns {Array<number | null>} The value of the series for each data row.
+   */
+  const resolveValues = ({
+    accessor,
+    gapPolicy: seriePolicy,
+  }: TimeVizSeriesConfig): Array<number | null> => {
+    const policy = seriePolicy ?? gapPolicy;
+    let lastValue: number | null = null;
+    return data.map((row) => {
+      const value = accessor(row);
+      if (isValidNumber(value)) {
+        lastValue = value;
+        return value;
+      }
+      if (policy === "zero") return 0;
+      return policy === "carry" ? lastValue : null;
+    });
+  };
+
+  /**
+   * Returns the resolved value of a series for a data row.
+   * @param {string} label - The label of the series.
+   * @param {number} index - The index of the data row.
+   * @returns {number | null} The value, or `null` when it is missing.
+   */
+  const getValue = (label: string, index: number): number | null =>
+    seriesValues.get(label)?.at(index) ?? null;
+
+  /**
+   * Breaks the line of a series where two consecutive points are further apart
+   * than the gap threshold, by inserting a point without value between them.
+   * @param {SeriePoint[]} points - The points of the series.
+   * @returns {SeriePoint[]} The points with the breaks.
+   */
+  const breakLargeGaps = (points: SeriePoint[]): SeriePoint[] =>
+    gapThreshold > 0
+      ? points.flatMap((point, i) => {
+          const previous = i > 0 ? points.at(i - 1) : undefined;
+          return previous && +point.x - +previous.x > gapThreshold
+            ? [{ x: previous.x, y: null }, point]
+            : [point];
+        })
+      : points;
+
+  /**
+   * Stacks the values of the series drawn against the same axis.
+   * @description
+   * The series are stacked with `d3.stack` in their configuration order.
+   * In the normalized mode the stacked values are divided by the total of the row,
+   * so every row fills the 0 to 1 domain.
+   * @param {TimeVizSeriesConfig[]} fields - The series drawn against the same axis.
+   * @returns {Array<[string, StackedValue[]]>} The stacked values by series label.
+   */
+  const computeStack = (
+    fields: TimeVizSeriesConfig[]
+  ): Array<[string, StackedValue[]]> => {
+    // Missing values add nothing to the stack
+    const totals = data.map((_, i) =>
+      d3.sum(fields, ({ label }) => getValue(label, i))
+    );
+    const layers = d3
+      .stack<ChartDataRow>()
+      .keys(fields.map(({ label }) => label))
+      .value((_, key, i) => getValue(key, i) ?? 0)(data);
+
+    return layers.map((layer) => [
+      layer.key,
+      layer.map(([y0, y1], i) => {
+        const total = totals.at(i) || 1;
+        const share = (y1 - y0) / total;
+        return stackMode === "normalized"
+          ? { y0: y0 / total, y1: y1 / total, cumulative: y1, share }
+          : { y0, y1, cumulative: y1, share };
+      }),
+    ]);
+  };
+
+  /**
+   * Returns the points of a series, placed on top of the stack when the chart is stacked.
+   * @description
+   * Points without value are dropped by the `"connect"` gap policy, so the line
+   * goes straight to the next value, and kept by the other policies to break the line.
+   * @param {TimeVizSeriesConfig} serie - The series configuration.
+   * @returns {SeriePoint[]} The points of the series.
+   */
+  const getSeriePoints = ({
+    label,
+    gapPolicy: seriePolicy,
+  }: TimeVizSeriesConfig): SeriePoint[] => {
+    const stacked = stackedValues.get(label);
+    const points = data.map((row, i) => {
+      const value = getValue(label, i);
+      const stackedValue = stacked?.at(i);
+      if (value === null) return { x: xSerie(row), y: null };
+      return stackedValue
+        ? { x: xSerie(row), y: stackedValue.y1, y0: stackedValue.y0 }
+        : { x: xSerie(row), y: value };
+    });
+    return breakLargeGaps(
+      (seriePolicy ?? gapPolicy) === "connect"
+        ? points.filter(isDefinedPoint)
+        : points
+    );
+  };
+
+  /**
+   * Reduces the points of a series to about one point per horizontal pixel.
+   * @description
+   * Each run of points between two gaps is downsampled on its own, with a share of
+   * the pixels proportional to its length, so the gaps are kept. Bars are never
+   * downsampled, because every time bucket needs its own bar.
+   * @param {SeriePoint[]} points - The points of the series.
+   * @param {SeriesMarkType} type - The mark type of the series.
+   * @returns {SeriePoint[]} The points to draw.
+   */
+  const downsamplePoints = (
+    points: SeriePoint[],
+    type: SeriesMarkType
+  ): SeriePoint[] => {
+    const threshold = Math.round(innerWidth);
+    if (downsample === "none" || type === "bar" || points.length <= threshold) {
+      return points;
+    }
+
+    const algorithm = downsample === "lttb" ? lttb : minMax;
+    const runs: DefinedPoint[][] = [[]];
+    for (const point of points) {
+      if (isDefinedPoint(point)) runs.at(-1)?.push(point);
+      else runs.push([]);
+    }
+
+    return runs
+      .filter((run) => run.length)
+      .flatMap((run, i) => {
+        const sampled = algorithm(
+          run,
+          Math.max(4, Math.round((threshold * run.length) / points.length))
+        );
+        const [{ x }] = run;
+        return i ? [{ x, y: null }, ...sampled] : sampled;
+      });
+  };
+
+  /**
+   * Computes the width of the band shared by the bars of a time bucket.
+   * @description
+   * The band is based on the smallest gap between two consecutive x values,
+   * so the bars of neighbouring buckets never overlap.
+   * @returns {number} The width of the band in pixels.
+   */
+  const computeBandWidth = (): number => {
+    const positions = d3.sort(data.map((row) => xScale(xSerie(row))));
+    const gaps = d3.pairs(positions, (a, b) => b - a).filter((gap) => gap > 0);
+    return (d3.min(gaps) ?? innerWidth / data.length) * BAR_PADDING_RATIO;
+  };
+
   /**
    * Renders the X axis of the chart.
    * @description
@@ -85,14 +461,18 @@ export const createTimeVizChart = () => {
     const xAxis = d3
       .axisBottom(xScale)
       .ticks(xTicks)
-      .tickFormat(d3.timeFormat(formatXAxis) as any);
+      .tickFormat(getXTickFormat(xScaleType, formatXAxis, xScale, xTicks, utc));
 
     selection
       .selectAll("g.x.axis")
       .data([null])
       .join("g")
       .attr("class", "x axis")
+      .attr("part", "axis x-axis")
       .attr("transform", `translate(0, ${innerHeight + margin.top})`)
+      // Shift the ticks smoothly when the domain moves, e.g. with streaming data
+      .transition()
+      .duration(transitionTime)
       .call(xAxis as any);
   };
 
@@ -107,20 +487,57 @@ export const createTimeVizChart = () => {
   const renderYAxis = (
     selection: Selection<SVGElement, unknown, null, undefined>
   ): void => {
+    if (!hasLeftAxis) {
+      selection.selectAll("g.y.axis").remove();
+      return;
+    }
     const yAxis = d3
       .axisLeft(yScale)
       .ticks(yTicks)
-      .tickFormat(d3.format(formatYAxis));
+      .tickFormat(d3.format(stackMode === "normalized" ? ".0%" : formatYAxis));
 
     selection
       .selectAll("g.y.axis")
       .data([null])
       .join("g")
       .attr("class", "y axis")
+      .attr("part", "axis y-axis")
       .attr("transform", `translate(${margin.left}, 0)`)
       .call(yAxis as any);
   };
 
+  /**
+   * Renders the right Y axis of the chart.
+   * @description
+   * The right Y axis is only drawn when a series is assigned to it.
+   * It formats the ticks according to `formatYAxisRight`.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const renderYAxisRight = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    if (!yScaleRight) {
+      selection.selectAll("g.y-right.axis").remove();
+      return;
+    }
+    const yAxis = d3
+      .axisRight(yScaleRight)
+      .ticks(yTicksRight)
+      .tickFormat(
+        d3.format(stackMode === "normalized" ? ".0%" : formatYAxisRight)
+      );
+
+    selection
+      .selectAll("g.y-right.axis")
+      .data([null])
+      .join("g")
+      .attr("class", "y-right axis")
+      .attr("part", "axis y-right-axis")
+      .attr("transform", `translate(${innerWidth + margin.left}, 0)`)
+      .call(yAxis as any);
+  };
+
   /**
    * Renders the X grid lines on the chart.
    * @description
@@ -138,10 +555,11 @@ export const createTimeVizChart = () => {
       .data([null])
       .join("g")
       .attr("class", "grids")
-      .selectAll(".x.grid")
-      .data(xScale.ticks(xTicks))
+      .selectAll<SVGLineElement, Date | number>(".x.grid")
+      .data<Date | number>(xScale.ticks(xTicks))
       .join("line")
       .attr("class", "x grid")
+      .attr("part", "grid")
       .attr("x1", (d) => xScale(d))
       .attr("y1", yScale(yMin))
       .attr("x2", (d) => xScale(d))
@@ -169,6 +587,7 @@ export const createTimeVizChart = () => {
       .data(yScale.ticks(yTicks))
       .join("line")
       .attr("class", "y grid")
+      .attr("part", "grid")
       .attr("x1", xScale(xMin))
       .attr("y1", (d) => yScale(d))
       .attr("x2", xScale(xMax))
@@ -176,58 +595,107 @@ export const createTimeVizChart = () => {
   };
 
   /**
-   * Renders the series lines on the chart.
+   * Returns the curve used to interpolate a series.
    * @description
-   * Each series is represented by a path element.
-   * The lines can be curved based on the `isCurved` flag.
-   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
-   * @returns {void}
+   * Step series use the step curve of their `step` position, the other series
+   * are curved based on the `isCurved` flag.
+   * @param {SerieDatum} datum - The series datum.
+   * @returns {d3.CurveFactory} The D3 curve factory.
    */
-  const renderSeries = (
-    selection: Selection<SVGElement, unknown, null, undefined>
-  ): void => {
-    if (!(series?.length && data?.length)) return;
+  const getCurve = ({ type, step }: SerieDatum): d3.CurveFactory => {
+    if (type === "step") return STEP_CURVES[step ?? "after"];
+    return isCurved ? d3.curveCatmullRom : d3.curveLinear;
+  };
+
+  /**
+   * Returns the position of the baseline of an area or bar series.
+   * @param {SerieDatum} datum - The series datum.
+   * @returns {number} The Y position of the baseline.
+   */
+  const getBaselineY = ({ axis, baseline }: SerieDatum): number =>
+    getYScale(axis)(baseline);
+
+  /**
+   * Returns the X position of the left edge of a bar.
+   * @description
+   * The bars of every bar series share the band of their time bucket side by side.
+   * @param {Date | number} x - The x value of the bar.
+   * @param {string} label - The label of the bar series.
+   * @returns {number} The X position of the bar.
+   */
+  const getBarX = (x: Date | number, label: string): number =>
+    xScale(x) -
+    bandWidth / 2 +
+    Math.max(0, barLabels.indexOf(label)) * (bandWidth / barLabels.length);
+
+  /**
+   * Returns the width of a single bar.
+   * @returns {number} The width of a bar.
+   */
+  const getBarWidth = (): number => bandWidth / Math.max(1, barLabels.length);
 
-    const line = d3
-      .line<{ x: number | Date; y: number }>()
+  /**
+   * Creates the line generator of a line or step series.
+   * @param {SerieDatum} datum - The series datum.
+   * @returns {d3.Line<SeriePoint>} The line generator.
+   */
+  const createLineGenerator = (datum: SerieDatum): d3.Line<SeriePoint> => {
+    const scale = getYScale(datum.axis);
+    return d3
+      .line<SeriePoint>()
+      .defined(isDefinedPoint)
       .x(({ x }) => xScale(x))
-      .y(({ y }) => yScale(y));
-    isCurved && line.curve(d3.curveCatmullRom);
+      .y(({ y }) => scale(y ?? 0))
+      .curve(getCurve(datum));
+  };
 
-    // Create a group for all series
-    const seriesGroup = selection
-      .selectAll(".series")
-      .data([null])
-      .join("g")
-      .attr("class", "series");
+  /**
+   * Creates the area generator of an area series.
+   * @description
+   * The area is filled down to the stack below it, or to its baseline when the chart is not stacked.
+   * @param {SerieDatum} datum - The series datum.
+   * @param {boolean} [isFlat=false] - Whether the top of the area is drawn on its bottom, to grow it on enter.
+   * @returns {d3.Area<SeriePoint>} The area generator.
+   */
+  const createAreaGenerator = (
+    datum: SerieDatum,
+    isFlat: boolean = false
+  ): d3.Area<SeriePoint> => {
+    const scale = getYScale(datum.axis);
+    const baselineY = getBaselineY(datum);
+    const getBottomY = ({ y0 }: SeriePoint): number =>
+      y0 === undefined ? baselineY : scale(y0);
+    return d3
+      .area<SeriePoint>()
+      .defined(isDefinedPoint)
+      .x(({ x }) => xScale(x))
+      .y0(getBottomY)
+      .y1((point) => (isFlat ? getBottomY(point) : scale(point.y ?? 0)))
+      .curve(getCurve(datum));
+  };
 
-    // For each series, create a group and a single path inside it
-    const group = seriesGroup
-      .selectAll<SVGGElement, TimeVizSeriesConfig>(".series-group")
-      .data(series)
-      .join("g")
-      .attr("class", "series-group")
-      .attr("data-label", ({ label }) => label);
+  /**
+   * Renders a line or step series as a single path.
+   * @param {Selection<SVGGElement, SerieDatum, any, unknown>} group - The group of the series.
+   * @returns {void}
+   */
+  const renderPathMark = (
+    group: Selection<SVGGElement, SerieDatum, any, unknown>
+  ): void => {
+    const datum = group.datum();
+    const line = createLineGenerator(datum);
 
     group
-      .selectAll<SVGPathElement, TimeVizSeriesConfig>("path.serie")
-      .data(({ label, accessor, color }) => [
-        {
-          label,
-          color: color || colorScale(label),
-          coordinates: data.map((row) => ({
-            x: xSerie(row),
-            y: accessor(row),
-          })),
-        },
-      ])
+      .selectAll<SVGPathElement, SerieDatum>(`path.serie.${datum.type}`)
+      .data([datum])
       .join(
         (enter) =>
           enter
             .append("path")
-            .attr("class", "serie")
+            .attr("class", ({ type }) => `serie ${type}`)
+            .attr("part", "serie")
             .attr("data-label", ({ label }) => label)
-            .attr("d", ({ coordinates }) => line(coordinates))
+            .attr("d", ({ points }) => line(points))
             .style("stroke", ({ color }) => color)
             .each(function () {
               const path = d3.select(this);
@@ -250,11 +718,327 @@ export const createTimeVizChart = () => {
             .transition()
             .duration(transitionTime)
             .style("stroke", ({ color }) => color)
-            .attr("d", ({ coordinates }) => line(coordinates)),
+            .attr("d", ({ points }) => line(points)),
         (exit) => exit.remove()
       );
   };
 
+  /**
+   * Renders an area series as a path filled down to its baseline.
+   * @param {Selection<SVGGElement, SerieDatum, any, unknown>} group - The group of the series.
+   * @returns {void}
+   */
+  const renderAreaMark = (
+    group: Selection<SVGGElement, SerieDatum, any, unknown>
+  ): void => {
+    const datum = group.datum();
+    const area = createAreaGenerator(datum);
+    // The enter transition grows the area from its baseline
+    const flatArea = createAreaGenerator(datum, true);
+
+    group
+      .selectAll<SVGPathElement, SerieDatum>("path.serie.area")
+      .data([datum])
+      .join(
+        (enter) =>
+          enter
+            .append("path")
+            .attr("class", "serie area")
+            .attr("part", "serie")
+            .attr("data-label", ({ label }) => label)
+            .attr("d", ({ points }) => flatArea(points))
+            .style("fill", ({ color }) => color)
+            .call((path) =>
+              path
+                .transition()
+                .duration(transitionTime)
+                .attr("d", ({ points }) => area(points))
+            ),
+        (update) =>
+          update
+            .transition()
+            .duration(transitionTime)
+            .style("fill", ({ color }) => color)
+            .attr("d", ({ points }) => area(points)),
+        (exit) => exit.remove()
+      );
+  };
+
+  /**
+   * Renders a bar series as one rectangle per time bucket.
+   * @param {Selection<SVGGElement, SerieDatum, any, unknown>} group - The group of the series.
+   * @returns {void}
+   */
+  const renderBarMark = (
+    group: Selection<SVGGElement, SerieDatum, any, unknown>
+  ): void => {
+    const { label, color, axis, points } = group.datum();
+    const scale = getYScale(axis);
+    const baselineY = getBaselineY(group.datum());
+    const barWidth = getBarWidth();
+    const getBarBaseY = ({ y0 }: DefinedPoint): number =>
+      y0 === undefined ? baselineY : scale(y0);
+
+    group
+      .selectAll<SVGRectElement, DefinedPoint>("rect.serie.bar")
+      .data(points.filter(isDefinedPoint), ({ x }) => +x)
+      .join(
+        (enter) =>
+          enter
+            .append("rect")
+            .attr("class", "serie bar")
+            .attr("part", "serie")
+            .attr("data-label", label)
+            .attr("x", ({ x }) => getBarX(x, label))
+            .attr("width", barWidth)
+            .attr("y", getBarBaseY)
+            .attr("height", 0)
+            .style("fill", color)
+            .call((rect) =>
+              rect
+                .transition()
+                .duration(transitionTime)
+                .attr("y", (d) => Math.min(scale(d.y), getBarBaseY(d)))
+                .attr("height", (d) => Math.abs(scale(d.y) - getBarBaseY(d)))
+            ),
+        (update) =>
+          update.call((rect) =>
+            rect
+              .transition()
+              .duration(transitionTime)
+              .style("fill", color)
+              .attr("x", ({ x }) => getBarX(x, label))
+              .attr("width", barWidth)
+              .attr("y", (d) => Math.min(scale(d.y), getBarBaseY(d)))
+              .attr("height", (d) => Math.abs(scale(d.y) - getBarBaseY(d)))
+          ),
+        (exit) =>
+          exit.call((rect) =>
+            rect
+              .transition()
+              .duration(transitionTime)
+              .attr("y", getBarBaseY)
+              .attr("height", 0)
+              .remove()
+          )
+      );
+  };
+
+  /**
+   * Renders a scatter series as one dot per data point.
+   * @param {Selection<SVGGElement, SerieDatum, any, unknown>} group - The group of the series.
+   * @returns {void}
+   */
+  const renderScatterMark = (
+    group: Selection<SVGGElement, SerieDatum, any, unknown>
+  ): void => {
+    const { label, color, axis, points } = group.datum();
+    const scale = getYScale(axis);
+
+    group
+      .selectAll<SVGCircleElement, DefinedPoint>("circle.serie.scatter")
+      .data(points.filter(isDefinedPoint), ({ x }) => +x)
+      .join(
+        (enter) =>
+          enter
+            .append("circle")
+            .attr("class", "serie scatter")
+            .attr("part", "serie")
+            .attr("data-label", label)
+            .attr("cx", ({ x }) => xScale(x))
+            .attr("cy", ({ y }) => scale(y))
+            .attr("r", 0)
+            .style("fill", color)
+            .call((circle) =>
+              circle
+                .transition()
+                .duration(transitionTime)
+                .attr("r", SCATTER_RADIUS)
+            ),
+        (update) =>
+          update.call((circle) =>
+            circle
+              .transition()
+              .duration(transitionTime)
+              .style("fill", color)
+              .attr("cx", ({ x }) => xScale(x))
+              .attr("cy", ({ y }) => scale(y))
+              .attr("r", SCATTER_RADIUS)
+          ),
+        (exit) =>
+          exit.call((circle) =>
+            circle.transition().duration(transitionTime).attr("r", 0).remove()
+          )
+      );
+  };
+
+  /**
+   * Draws the series on the canvas layered under the SVG element.
+   * @description
+   * The canvas is sized to the SVG element and the pixel ratio of the screen.
+   * The marks are drawn with the same generators as the SVG renderer, without transitions.
+   * @param {SerieDatum[]} seriesData - The data of the series to draw.
+   * @param {{ width: number, height: number }} size - The size of the SVG element.
+   * @returns {void}
+   */
+  const drawCanvas = (
+    seriesData: SerieDatum[],
+    { width, height }: { width: number; height: number }
+  ): void => {
+    const context = canvas?.getContext("2d");
+    if (!(canvas && context)) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    context.save();
+    context.beginPath();
+    context.rect(margin.left, margin.top, innerWidth, innerHeight);
+    context.clip();
+
+    for (const datum of seriesData) {
+      const { type, color, label, points } = datum;
+      const scale = getYScale(datum.axis);
+      const baselineY = getBaselineY(datum);
+      context.fillStyle = color;
+      context.strokeStyle = color;
+      context.globalAlpha = 1;
+      context.beginPath();
+      switch (type) {
+        case "area":
+          context.globalAlpha = AREA_OPACITY;
+          createAreaGenerator(datum).context(context)(points);
+          context.fill();
+          break;
+        case "bar":
+          for (const { x, y, y0 } of points.filter(isDefinedPoint)) {
+            const baseY = y0 === undefined ? baselineY : scale(y0);
+            context.rect(
+              getBarX(x, label),
+              Math.min(scale(y), baseY),
+              getBarWidth(),
+              Math.abs(scale(y) - baseY)
+            );
+          }
+          context.fill();
+          break;
+        case "scatter":
+          for (const { x, y } of points.filter(isDefinedPoint)) {
+            context.moveTo(xScale(x) + SCATTER_RADIUS, scale(y));
+            context.arc(xScale(x), scale(y), SCATTER_RADIUS, 0, 2 * Math.PI);
+          }
+          context.fill();
+          break;
+        default:
+          context.lineWidth = 2;
+          createLineGenerator(datum).context(context)(points);
+          context.stroke();
+      }
+    }
+    context.restore();
+  };
+
+  /**
+   * Clears the canvas, so it does not keep the series of a previous canvas render.
+   * @returns {void}
+   */
+  const clearCanvas = (): void => {
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const markRenderers: Record<
+    SeriesMarkType,
+    (group: Selection<SVGGElement, SerieDatum, any, unknown>) => void
+  > = {
+    line: renderPathMark,
+    step: renderPathMark,
+    area: renderAreaMark,
+    bar: renderBarMark,
+    scatter: renderScatterMark,
+  };
+
+  /**
+   * Renders the series on the chart.
+   * @description
+   * Each series is drawn in its own group with the mark of its `type`:
+   * a line, an area down to a baseline, bars per time bucket, steps or scatter dots.
+   * The marks of a previous type are removed when the type of a series changes.
+   * With the canvas renderer the marks are drawn on the canvas instead, and the groups
+   * are only kept to hold the cursor points.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const renderSeries = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    if (!data?.length) return;
+
+    const seriesData: SerieDatum[] = series.map((serie) => ({
+      label: serie.label,
+      color: serie.color || colorScale(serie.label),
+      type: serie.type ?? "line",
+      step: serie.step,
+      axis: serie.axis,
+      baseline: serie.baseline ?? 0,
+      points: downsamplePoints(getSeriePoints(serie), serie.type ?? "line"),
+    }));
+
+    // Create a group for all series
+    const seriesGroup = selection
+      .selectAll(".series")
+      .data([null])
+      .join("g")
+      .attr("class", "series")
+      .attr("part", "series");
+
+    // For each series, create a group with the marks of its type inside it
+    const groups = seriesGroup
+      .selectAll<SVGGElement, SerieDatum>(".series-group")
+      .data(seriesData)
+      .join("g")
+      .attr("class", "series-group")
+      .attr("data-label", ({ label }) => label);
+
+    if (renderer === "canvas") {
+      groups.selectAll(".serie").remove();
+      drawCanvas(seriesData, getSize(selection));
+      return;
+    }
+
+    clearCanvas();
+    groups.each(function (datum) {
+      const group = d3.select<SVGGElement, SerieDatum>(this);
+      group.selectAll(`.serie:not(.${datum.type})`).remove();
+      group.call(markRenderers[datum.type] ?? renderPathMark);
+    });
+  };
+
+  /**
+   * Builds the points of the series at a row, as shown by the cursor and the tooltip.
+   * @param row - The row under the cursor.
+   * @param rowIndex - The index of the row in the data.
+   * @returns The points, with the stacked values when the series are stacked.
+   */
+  const getCursorPoints = (row: ChartDataRow, rowIndex: number) =>
+    series.map(({ label, color, axis, type }) => {
+      const y = getValue(label, rowIndex);
+      const { y1, cumulative, share } =
+        stackedValues.get(label)?.at(rowIndex) ?? {};
+      return {
+        label,
+        color: color || colorScale(label),
+        axis,
+        type,
+        x: xSerie(row),
+        y,
+        position: y1 ?? y,
+        ...(cumulative === undefined || y === null
+          ? {}
+          : { cumulative, share }),
+      };
+    });
+
   /**
    * Renders the cursor on the chart.
    * @description
@@ -262,46 +1046,57 @@ export const createTimeVizChart = () => {
    * It highlights the closest data point to the mouse position.
    * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
    * @param {ChartDataRow} closestRow - The closest data row to the mouse position.
+   * @param {number} rowIndex - The index of the closest data row.
    * @returns {void}
    */
   const renderCursor = (
     selection: Selection<SVGElement, unknown, null, undefined>,
-    closestRow: ChartDataRow
+    closestRow: ChartDataRow,
+    rowIndex: number
   ): void => {
     if (isStatic) return;
+    const formatX = getXTickFormat(
+      xScaleType,
+      formatXAxis,
+      xScale,
+      xTicks,
+      utc
+    );
     const seriesGroup = selection
       .selectAll(".series")
       .data([null])
       .join("g")
-      .attr("class", "series");
+      .attr("class", "series")
+      .attr("part", "series");
 
     seriesGroup
       .selectAll(".series-group")
-      .data(
-        series.map(({ label, color, accessor }) => ({
-          label,
-          color: color || colorScale(label),
-          x: xSerie(closestRow),
-          y: accessor(closestRow),
-        }))
-      )
+      .data(getCursorPoints(closestRow, rowIndex))
       .join("g")
       .attr("class", "series-group")
       .attr("data-label", ({ label }) => label)
       .selectAll(".cursor.point")
-      .data(({ x, y, color, label }) => [{ x, y, color, label }])
+      .data((point) => [point])
       .join("circle")
-      .attr("class", "cursor point")
+      // Points without value are hidden, so they never show a tooltip
+      .attr("class", ({ y }) =>
+        y === null ? "cursor point missing" : "cursor point"
+      )
+      .attr("part", "cursor cursor-point")
       .attr("data-label", ({ label }) => label)
-      .attr("cx", ({ x }) => xScale(x))
-      .attr("cy", ({ y }) => yScale(y))
+      // Bars are drawn side by side, so the point sits on top of its own bar
+      .attr("cx", ({ x, label, type }) =>
+        type === "bar" ? getBarX(x, label) + getBarWidth() / 2 : xScale(x)
+      )
+      .attr("cy", ({ position, axis }) =>
+        position === null ? null : getYScale(axis)(position)
+      )
       .attr("r", 4)
       .style("stroke", ({ color }) => color)
-      .attr("tabindex", 0)
-      .attr("role", "button")
       .attr(
         "aria-label",
-        ({ label, x, y }) => `Data point for ${label}, x: ${x}, y: ${y}`
+        ({ label, x, y }) =>
+          `Data point for ${label}, x: ${formatX(x)}, y: ${y ?? "no data"}`
       );
 
     seriesGroup
@@ -309,12 +1104,178 @@ export const createTimeVizChart = () => {
       .data([closestRow])
       .join("line")
       .attr("class", "cursor vertical-line")
+      .attr("part", "cursor cursor-line")
       .attr("x1", xScale(xSerie(closestRow)))
       .attr("y1", margin.top)
       .attr("x2", xScale(xSerie(closestRow)))
       .attr("y2", innerHeight + margin.top);
   };
 
+  /**
+   * Renders the annotations on the chart.
+   * @description
+   * Shaded time ranges are drawn below the series, while event markers, reference
+   * lines and callouts are drawn above them. Annotations outside of the visible range
+   * are not drawn, and ranges are cut to it. Each annotation has a `<title>` with its
+   * `tooltip` text, or its label, and can be styled with the `.annotation` classes.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const renderAnnotations = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    const [xMin, xMax] = xScale.domain();
+    const [xStart, xEnd] = xScale.range();
+    const clampX = (x: Date | number): number =>
+      Math.max(xStart, Math.min(xScale(x), xEnd));
+    // Without series, the Y scale has no values to place the annotations on
+    const isWithinY = ({ y, axis }: { y: number; axis?: YAxisPosition }) => {
+      const [yMin, yMax] = getYScale(axis).domain();
+      return series.length > 0 && y >= yMin && y <= yMax;
+    };
+    const getTitle = ({ tooltip, label }: TimeVizAnnotation): string =>
+      tooltip ?? label ?? "";
+
+    // Ranges stay below the series, so they never hide them
+    selection
+      .selectAll("g.annotation-ranges")
+      .data([null])
+      .join((enter) =>
+        enter.insert("g", ".series").attr("class", "annotation-ranges")
+      )
+      .selectAll<SVGGElement, TimeVizAnnotation>("g.annotation")
+      .data(
+        annotations
+          .filter(isAnnotationType("range"))
+          .filter(({ start, end }) => end >= xMin && start <= xMax)
+      )
+      .join((enter) =>
+        enter.append("g").call((group) => {
+          group.append("rect");
+          group.append("text").attr("class", "annotation-label");
+          group.append("title");
+        })
+      )
+      .attr("class", getAnnotationClass)
+      .call((group) => {
+        group
+          .select("rect")
+          .attr("x", ({ start }) => clampX(start))
+          .attr("y", margin.top)
+          .attr("width", ({ start, end }) => clampX(end) - clampX(start))
+          .attr("height", innerHeight);
+        group
+          .select("text")
+          .attr("x", ({ start }) => clampX(start) + 4)
+          .attr("y", margin.top)
+          .attr("dy", "1em")
+          .text(({ label }) => label ?? "");
+        group.select("title").text(getTitle);
+      });
+
+    const overlay = selection
+      .selectAll("g.annotations")
+      .data([null])
+      .join("g")
+      .attr("class", "annotations")
+      .attr("part", "annotations");
+
+    overlay
+      .selectAll<SVGGElement, TimeVizAnnotation>("g.annotation.marker")
+      .data(
+        annotations
+          .filter(isAnnotationType("marker"))
+          .filter(({ x }) => x >= xMin && x <= xMax)
+      )
+      .join((enter) =>
+        enter.append("g").call((group) => {
+          group.append("line");
+          group.append("text").attr("class", "annotation-label");
+          group.append("title");
+        })
+      )
+      .attr("class", getAnnotationClass)
+      .call((group) => {
+        group
+          .select("line")
+          .attr("x1", ({ x }) => xScale(x))
+          .attr("y1", margin.top)
+          .attr("x2", ({ x }) => xScale(x))
+          .attr("y2", innerHeight + margin.top);
+        group
+          .select("text")
+          .attr("x", ({ x }) => xScale(x) + 4)
+          .attr("y", margin.top)
+          .attr("dy", "1em")
+          .text(({ label }) => label ?? "");
+        group.select("title").text(getTitle);
+      });
+
+    overlay
+      .selectAll<SVGGElement, TimeVizAnnotation>("g.annotation.threshold")
+      .data(annotations.filter(isAnnotationType("threshold")).filter(isWithinY))
+      .join((enter) =>
+        enter.append("g").call((group) => {
+          group.append("line");
+          group.append("text").attr("class", "annotation-label");
+          group.append("title");
+        })
+      )
+      .attr("class", getAnnotationClass)
+      .call((group) => {
+        group
+          .select("line")
+          .attr("x1", xStart)
+          .attr("y1", ({ y, axis }) => getYScale(axis)(y))
+          .attr("x2", xEnd)
+          .attr("y2", ({ y, axis }) => getYScale(axis)(y));
+        group
+          .select("text")
+          .attr("x", xEnd - 4)
+          .attr("y", ({ y, axis }) => getYScale(axis)(y))
+          .attr("dy", "-0.3em")
+          .text(({ label }) => label ?? "");
+        group.select("title").text(getTitle);
+      });
+
+    overlay
+      .selectAll<SVGGElement, TimeVizAnnotation>("g.annotation.callout")
+      .data(
+        annotations
+          .filter(isAnnotationType("callout"))
+          .filter(({ x }) => x >= xMin && x <= xMax)
+          .filter(isWithinY)
+      )
+      .join((enter) =>
+        enter.append("g").call((group) => {
+          group.append("line");
+          group.append("circle");
+          group.append("text").attr("class", "annotation-label");
+          group.append("title");
+        })
+      )
+      .attr("class", getAnnotationClass)
+      .call((group) => {
+        group
+          .select("circle")
+          .attr("cx", ({ x }) => xScale(x))
+          .attr("cy", ({ y, axis }) => getYScale(axis)(y))
+          .attr("r", 5);
+        group
+          .select("line")
+          .attr("x1", ({ x }) => xScale(x))
+          .attr("y1", ({ y, axis }) => getYScale(axis)(y))
+          .attr("x2", ({ x }) => xScale(x) + 16)
+          .attr("y2", ({ y, axis }) => getYScale(axis)(y) - 16);
+        group
+          .select("text")
+          .attr("x", ({ x }) => xScale(x) + 18)
+          .attr("y", ({ y, axis }) => getYScale(axis)(y) - 18)
+          .text(({ label }) => label ?? "");
+        group.select("title").text(getTitle);
+      });
+  };
+
   /**
    * Renders the Y axis label on the chart.
    * @description
@@ -326,7 +1287,10 @@ export const createTimeVizChart = () => {
   const renderYAxisLabel = (
     selection: Selection<SVGElement, unknown, null, undefined>
   ): void => {
-    if (!yAxisLabel) return;
+    if (!(yAxisLabel && hasLeftAxis)) {
+      selection.selectAll(".y.axis-label").remove();
+      return;
+    }
     selection
       .selectAll(".labels")
       .data([null])
@@ -336,6 +1300,7 @@ export const createTimeVizChart = () => {
       .data([yAxisLabel])
       .join("text")
       .attr("class", "y axis-label")
+      .attr("part", "axis-label")
       .attr("x", -margin.left)
       .attr("y", margin.top)
       .attr("transform", `rotate(-90, ${margin.left}, ${margin.top})`)
@@ -343,6 +1308,41 @@ export const createTimeVizChart = () => {
       .text((d) => d);
   };
 
+  /**
+   * Renders the right Y axis label on the chart.
+   * @description
+   * The right Y axis label is positioned at the right side of the chart.
+   * It is rotated to be vertical and centered on the plot area.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const renderYAxisRightLabel = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    if (!(yAxisRightLabel && yScaleRight)) {
+      selection.selectAll(".y-right.axis-label").remove();
+      return;
+    }
+    selection
+      .selectAll(".labels")
+      .data([null])
+      .join("g")
+      .attr("class", "labels")
+      .selectAll(".y-right.axis-label")
+      .data([yAxisRightLabel])
+      .join("text")
+      .attr("class", "y-right axis-label")
+      .attr("part", "axis-label")
+      .attr(
+        "transform",
+        `translate(${innerWidth + margin.left + margin.right - legendMargin.right}, ${
+          margin.top + innerHeight / 2
+        }) rotate(90)`
+      )
+      .attr("dy", "1em")
+      .text((d) => d);
+  };
+
   /**
    * Renders the X axis label on the chart.
    * @description
@@ -364,45 +1364,67 @@ export const createTimeVizChart = () => {
       .data([xAxisLabel])
       .join("text")
       .attr("class", "x axis-label")
+      .attr("part", "axis-label")
       .attr("x", innerWidth / 2 + margin.left)
       .attr("y", innerHeight + margin.top)
       .attr("dy", "-0.5em")
       .text((d) => d);
   };
 
+  /**
+   * Renders the legend and reserves its space in the margins.
+   * @description
+   * The items are measured and wrapped onto several rows at the top or the bottom,
+   * or stacked in a column on the left or the right. The margin of that side grows
+   * to fit the legend, so it never overlaps the plot. Series of the legend that are
+   * not drawn are shown as hidden. Clicking an item toggles its series, while
+   * shift + click or double-click isolates it, and the items can be focused and
+   * toggled with Enter or Space.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @param {number} width - The width of the SVG element.
+   * @param {number} height - The height of the SVG element.
+   * @returns {void}
+   */
   const renderLegend = (
-    selection: Selection<SVGElement, unknown, null, undefined>
+    selection: Selection<SVGElement, unknown, null, undefined>,
+    width: number,
+    height: number
   ): void => {
-    if (!series?.length) return;
+    const items = legendSeries ?? series;
+    if (legendPosition === "none" || !items.length) {
+      selection.selectAll("g.legend").remove();
+      return;
+    }
 
-    // Place legend at top right, horizontally
-    const legendGroup = selection
+    const visibleLabels = new Set(series.map(({ label }) => label));
+    const isInteractive = !isStatic && Boolean(onLegendToggle);
+    const itemGroups = selection
       .selectAll("g.legend")
       .data([null])
       .join("g")
       .attr("class", "legend")
-      .attr(
-        "transform",
-        `translate(${innerWidth / 2 - margin.left}, ${margin.top / 2})`
-      ); // move to top left, adjust as needed
-
-    // Horizontal layout: each item is offset by its width
-    const itemWidth = 100; // px, adjust as needed
-    legendGroup
-      .selectAll(".legend-item")
-      .data(series)
+      .attr("part", "legend")
+      .selectAll<SVGGElement, TimeVizSeriesConfig>("g.legend-item")
+      .data(items, ({ label }) => label)
       .join("g")
       .attr("class", "legend-item")
+      .attr("part", "legend-item")
+      .classed("hidden", ({ label }) => !visibleLabels.has(label))
+      .classed("interactive", isInteractive)
       .attr("data-label", ({ label }) => label)
-      .attr("transform", (_, i) => `translate(${i * itemWidth}, 0)`)
+      .attr("tabindex", isInteractive ? 0 : null)
+      .attr("role", isInteractive ? "button" : null)
+      .attr("aria-pressed", ({ label }) =>
+        isInteractive ? `${visibleLabels.has(label)}` : null
+      )
       .call((group) => {
         group
           .selectAll("rect")
           .data((d) => [d])
           .join("rect")
           .attr("class", "legend-square")
-          .attr("x", 0)
-          .attr("y", 0)
+          .attr("width", LEGEND_SQUARE_SIZE)
+          .attr("height", LEGEND_SQUARE_SIZE)
           .style("fill", ({ color, label }) => color || colorScale(label));
 
         group
@@ -410,10 +1432,170 @@ export const createTimeVizChart = () => {
           .data((d) => [d])
           .join("text")
           .attr("class", "legend-label")
-          .attr("x", 20)
-          .attr("y", 14)
+          .attr("x", LEGEND_SQUARE_SIZE + LEGEND_LABEL_GAP)
+          .attr("y", LEGEND_SQUARE_SIZE / 2)
+          .attr("dominant-baseline", "central")
           .text(({ label }) => label);
+      })
+      .on("click", (event: MouseEvent, { label }) => {
+        isInteractive && legendClick.click(event, label);
+      })
+      .on("dblclick", (_, { label }) => {
+        isInteractive && legendClick.dblclick(label);
+      })
+      .on("keydown", (event: KeyboardEvent, { label }) => {
+        if (!isInteractive || !(event.key === "Enter" || event.key === " ")) {
+          return;
+        }
+        event.preventDefault();
+        onLegendToggle?.(label, event.shiftKey);
       });
+
+    // Lay out the items from their measured width
+    const isHorizontal =
+      legendPosition === "top" || legendPosition === "bottom";
+    const itemWidths = itemGroups
+      .nodes()
+      .map(
+        (node) =>
+          LEGEND_SQUARE_SIZE +
+          LEGEND_LABEL_GAP +
+          (node.querySelector("text")?.getComputedTextLength() ?? 0)
+      );
+    const maxWidth = isHorizontal
+      ? width - baseMargin.left - baseMargin.right
+      : (d3.max(itemWidths) ?? 0);
+    let x = 0;
+    let y = 0;
+    const positions = itemWidths.map((itemWidth) => {
+      if (isHorizontal && x > 0 && x + itemWidth > maxWidth) {
+        x = 0;
+        y += LEGEND_ROW_HEIGHT;
+      }
+      const position = [x, y];
+      isHorizontal
+        ? (x += itemWidth + LEGEND_ITEM_GAP)
+        : (y += LEGEND_ROW_HEIGHT);
+      return position;
+    });
+    itemGroups.attr("transform", (_, i) => `translate(${positions[i]})`);
+
+    const legendHeight = (positions.at(-1)?.[1] ?? 0) + LEGEND_ROW_HEIGHT;
+    const [legendX, legendY] = {
+      top: [baseMargin.left, LEGEND_PADDING],
+      bottom: [baseMargin.left, height - legendHeight],
+      left: [LEGEND_PADDING, baseMargin.top],
+      right: [width - maxWidth - LEGEND_PADDING, baseMargin.top],
+    }[legendPosition];
+    selection
+      .select("g.legend")
+      .attr("transform", `translate(${legendX}, ${legendY})`);
+
+    // The top margin already holds the legend, so it only grows when it is too small
+    legendMargin = {
+      top:
+        legendPosition === "top"
+          ? Math.max(0, legendHeight + 2 * LEGEND_PADDING - baseMargin.top)
+          : 0,
+      right: legendPosition === "right" ? maxWidth + 2 * LEGEND_PADDING : 0,
+      bottom: legendPosition === "bottom" ? legendHeight : 0,
+      left: legendPosition === "left" ? maxWidth + 2 * LEGEND_PADDING : 0,
+    };
+    margin = {
+      top: baseMargin.top + legendMargin.top,
+      right: baseMargin.right + legendMargin.right,
+      bottom: baseMargin.bottom + legendMargin.bottom,
+      left: baseMargin.left + legendMargin.left,
+    };
+  };
+
+  /**
+   * Renders the brush used to select a time range on the chart.
+   * @description
+   * Dragging over the plot area selects an x range that is passed to the
+   * `onRangeChange` callback. The brush is cleared as soon as the range is emitted,
+   * because the chart is re-rendered with the selected range as its x domain.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const renderBrush = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    if (isStatic || !onRangeChange) {
+      selection.selectAll("g.brush").remove();
+      return;
+    }
+
+    const brush = d3
+      .brushX<null>()
+      .extent([
+        [margin.left, margin.top],
+        [innerWidth + margin.left, innerHeight + margin.top],
+      ])
+      // Shift + drag is reserved for panning
+      .filter((event) => !event.shiftKey && !event.button)
+      .on("end", (event: d3.D3BrushEvent<null>) => {
+        if (!(event.sourceEvent && event.selection)) return;
+        const [x0, x1] = event.selection as [number, number];
+        brushGroup.call(brush.move, null);
+        if (x1 - x0 < 1) return;
+        onRangeChange?.([xScale.invert(x0), xScale.invert(x1)]);
+      });
+
+    // Keep the brush below the series so the cursor points still get hovered
+    const brushGroup = selection
+      .selectAll<SVGGElement, null>("g.brush")
+      .data([null])
+      .join((enter) => enter.insert("g", ".series").attr("class", "brush"))
+      .call(brush);
+  };
+
+  /**
+   * Sets up the wheel zoom and the shift + drag pan on the time axis.
+   * @description
+   * The zoom transform is only used to compute a new x domain, which is passed to
+   * the `onRangeChange` callback. The transform is reset to the identity when the
+   * gesture ends, so the next gesture starts from the rendered domain.
+   * @param {Selection<SVGElement, unknown, null, undefined>} selection - The D3 selection of the SVG element.
+   * @returns {void}
+   */
+  const setupZoom = (
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ): void => {
+    const node = selection.node();
+    if (isStatic || !onRangeChange || !node) {
+      selection.on(".zoom", null);
+      return;
+    }
+
+    const zoom = d3
+      .zoom<SVGElement, unknown>()
+      .filter(
+        (event) => event.type === "wheel" || (event.shiftKey && !event.button)
+      )
+      .on("start", (event: d3.D3ZoomEvent<SVGElement, unknown>) => {
+        if (!event.sourceEvent) return;
+        zoomStartDomain.set(node, xScale.domain());
+      })
+      .on("zoom", (event: d3.D3ZoomEvent<SVGElement, unknown>) => {
+        if (!event.sourceEvent) return;
+        const [domainStart, domainEnd] =
+          zoomStartDomain.get(node) ?? xScale.domain();
+        const startScale = createXScale(
+          xScaleType,
+          [domainStart, domainEnd],
+          [margin.left, innerWidth + margin.left],
+          utc
+        );
+        const [start, end] = event.transform.rescaleX(startScale).domain();
+        onRangeChange?.([start, end]);
+      })
+      .on("end", (event: d3.D3ZoomEvent<SVGElement, unknown>) => {
+        if (!event.sourceEvent) return;
+        selection.call(zoom.transform, d3.zoomIdentity);
+      });
+
+    selection.call(zoom).on("dblclick.zoom", null);
   };
 
   /**
@@ -433,14 +1615,15 @@ export const createTimeVizChart = () => {
     // Check if mouse is within the chart area
     const isWithinXAxis = mouseX >= xMinRange && mouseX <= xMaxRange;
     const isWithinYAxis = mouseY >= yMinRange && mouseY <= yMaxRange;
-    if (!(isWithinXAxis && isWithinYAxis)) {
+    if (!(isWithinXAxis && isWithinYAxis && series.length)) {
       selection.selectAll(".cursor").classed("hidden", true);
+      lastCursorIdx !== null && onCursorMove?.(null, null);
       lastCursorIdx = null;
+      tooltipMode === "shared" && hideSharedTooltip();
       return;
     }
     if (!data.length) return;
     // Use d3.bisector for O(log n) lookup
-    const xValues = data.map(xSerie);
     const mouseDate = xScale.invert(mouseX);
     const bisect = d3.bisector((d: Date | number) => d).center;
     const idx = bisect(xValues, mouseDate);
@@ -449,7 +1632,72 @@ export const createTimeVizChart = () => {
     if (lastCursorIdx === clampedIdx) return; // Only update if changed
     lastCursorIdx = clampedIdx;
     const closestDatum = data.at(clampedIdx);
-    if (closestDatum) selection.call(renderCursor, closestDatum);
+    if (!closestDatum) return;
+    selection.call(renderCursor, closestDatum, clampedIdx);
+    tooltipMode === "shared" &&
+      showSharedTooltip(selection, closestDatum, clampedIdx);
+    onCursorMove?.(closestDatum, clampedIdx);
+  };
+
+  /**
+   * Handle a click on a cursor point.
+   * @param event.target - The pointer event target
+   * @returns {void}
+   */
+  const handlePointClick = ({ target }: PointerEvent) => {
+    if (!(target instanceof SVGElement && target.classList.contains("point"))) {
+      return;
+    }
+    if (lastCursorIdx === null) return;
+    const row = data.at(lastCursorIdx);
+    if (!row) return;
+    const { label } = d3.select(target).datum() as { label: string };
+    onPointClick?.(row, lastCursorIdx, label);
+  };
+
+  /**
+   * Shows the shared tooltip at the cursor line, with the values of all the series
+   * at a row.
+   * @description
+   * The tooltip receives the `x` value of the row and its `series`, sorted by value
+   * from the highest, with the missing values last.
+   * @param selection - The D3 selection of the SVG element
+   * @param row - The row under the cursor
+   * @param rowIndex - The index of the row in the data
+   * @returns {void}
+   */
+  const showSharedTooltip = (
+    selection: Selection<SVGElement, unknown, null, undefined>,
+    row: ChartDataRow,
+    rowIndex: number
+  ) => {
+    const target = selection.select(".cursor.vertical-line").node();
+    if (!(target instanceof SVGElement)) return;
+    const points = getCursorPoints(row, rowIndex)
+      .sort(
+        (a, b) =>
+          Number(a.y === null) - Number(b.y === null) ||
+          d3.descending(a.y ?? undefined, b.y ?? undefined)
+      )
+      .map(({ label, color, axis, y, cumulative, share }) => ({
+        label,
+        color,
+        axis,
+        y,
+        cumulative,
+        share,
+      }));
+    tooltip.show({ x: datumX(xSerie(row)), series: points }, target);
+  };
+
+  /**
+   * Hides the shared tooltip when the pointer leaves the plot area.
+   * @returns {void}
+   */
+  const hideSharedTooltip = () => {
+    lastCursorIdx !== null && onCursorMove?.(null, null);
+    lastCursorIdx = null;
+    tooltip.hide();
   };
 
   /**
@@ -470,7 +1718,8 @@ export const createTimeVizChart = () => {
       }
       // Only show if not already showing for this datum
       if (lastTooltipDatum !== datum) {
-        tooltip.show(datum as ChartDataRow, target);
+        const { x } = datum as { x: Date | number };
+        tooltip.show({ ...(datum as ChartDataRow), x: datumX(x) }, target);
         lastTooltipDatum = datum;
       }
     }
@@ -492,16 +1741,202 @@ export const createTimeVizChart = () => {
     }
   };
 
+  /**
+   * Builds the text announced for the row under the keyboard cursor.
+   * @param row - The row under the cursor.
+   * @param rowIndex - The index of the row in the data.
+   * @param label - The label of the focused series, announced first.
+   * @returns The X value of the row and the values of the series, with their share
+   * and cumulative value when the series are stacked.
+   */
+  const getCursorAnnouncement = (
+    row: ChartDataRow,
+    rowIndex: number,
+    label: string
+  ): string => {
+    const formatX = getXTickFormat(
+      xScaleType,
+      formatXAxis,
+      xScale,
+      xTicks,
+      utc
+    );
+    const formatLeft = d3.format(formatYAxis);
+    const formatRight = d3.format(formatYAxisRight);
+    const formatShare = d3.format(".1%");
+    const values = getCursorPoints(row, rowIndex)
+      .sort((a, b) => Number(b.label === label) - Number(a.label === label))
+      .map(({ label, axis, y, cumulative, share }) => {
+        if (y === null) return `${label}: no data`;
+        const formatY = axis === "right" ? formatRight : formatLeft;
+        const stack =
+          cumulative === undefined || share === undefined
+            ? ""
+            : ` (${formatShare(share)}, cumulative ${formatY(cumulative)})`;
+        return `${label}: ${formatY(y)}${stack}`;
+      });
+    return `${formatX(xSerie(row))}. ${values.join(", ")}`;
+  };
+
+  /**
+   * Moves the cursor to a row with the keyboard, and announces its values.
+   * @param selection - The D3 selection of the SVG element
+   * @param rowIndex - The index of the row in the data
+   * @param label - The label of the focused series
+   * @param showTooltip - Whether to show the tooltip of the focused point
+   * @returns {void}
+   */
+  const moveKeyboardCursor = (
+    selection: Selection<SVGElement, unknown, null, undefined>,
+    rowIndex: number,
+    label: string,
+    showTooltip: boolean
+  ) => {
+    const row = data.at(rowIndex);
+    const node = selection.node();
+    if (!row || !node) return;
+    keyboardCursor.set(node, { x: xSerie(row), label });
+    lastCursorIdx = rowIndex;
+    selection.call(renderCursor, row, rowIndex);
+    const point = selection
+      .selectAll<SVGCircleElement, { label: string }>(".cursor.point")
+      .classed("focused", (point) => point.label === label)
+      .filter((point) => point.label === label)
+      .node();
+    onCursorMove?.(row, rowIndex);
+    onAnnounce?.(getCursorAnnouncement(row, rowIndex, label));
+    if (!showTooltip) return;
+    if (tooltipMode === "shared") {
+      showSharedTooltip(selection, row, rowIndex);
+    } else if (point) {
+      const datum = d3.select(point).datum() as ChartDataRow;
+      tooltip.show({ ...datum, x: datumX(xSerie(row)) }, point);
+      lastTooltipDatum = datum;
+    }
+  };
+
+  let isKeyboardTooltipShown = false;
+
+  /**
+   * Handle the keys of the plot: the arrows, Home, End, PageUp and PageDown move the
+   * cursor between the rows and the series, Enter shows the tooltip and clicks the
+   * focused point, Escape hides the tooltip, and + and - zoom around the cursor.
+   * @param event - The keyboard event
+   * @param selection - The D3 selection of the SVG element
+   * @returns {void}
+   */
+  const handleKeyDown = (
+    event: KeyboardEvent,
+    selection: Selection<SVGElement, unknown, null, undefined>
+  ) => {
+    const node = selection.node();
+    // The legend items handle their own keys
+    if (!node || event.target !== node || !data.length || !series.length) {
+      return;
+    }
+    const lastIndex = data.length - 1;
+    const saved = keyboardCursor.get(node);
+    const currentIndex =
+      lastCursorIdx ??
+      (saved
+        ? d3.bisector((x: Date | number) => +x).center(xValues, +saved.x)
+        : null);
+    const labels = series.map(({ label }) => label);
+    const currentLabel =
+      saved && labels.includes(saved.label) ? saved.label : labels[0];
+    const seriesIndex = labels.indexOf(currentLabel);
+    const page = Math.max(1, Math.round(data.length * KEYBOARD_PAGE_RATIO));
+    // The first key only shows the cursor, on the first row
+    const step = (offset: number) =>
+      currentIndex === null
+        ? 0
+        : Math.max(0, Math.min(currentIndex + offset, lastIndex));
+
+    let rowIndex = step(0);
+    let label = currentLabel;
+    switch (event.key) {
+      case "ArrowRight":
+        rowIndex = step(1);
+        break;
+      case "ArrowLeft":
+        rowIndex = step(-1);
+        break;
+      case "PageUp":
+        rowIndex = step(page);
+        break;
+      case "PageDown":
+        rowIndex = step(-page);
+        break;
+      case "Home":
+        rowIndex = 0;
+        break;
+      case "End":
+        rowIndex = lastIndex;
+        break;
+      case "ArrowUp":
+        label = labels[(seriesIndex - 1 + labels.length) % labels.length];
+        break;
+      case "ArrowDown":
+        label = labels[(seriesIndex + 1) % labels.length];
+        break;
+      case "Enter":
+        isKeyboardTooltipShown = true;
+        break;
+      case "Escape":
+        isKeyboardTooltipShown = false;
+        tooltip.hide();
+        lastTooltipDatum = null;
+        event.preventDefault();
+        return;
+      case "+":
+      case "=":
+      case "-":
+      case "_": {
+        event.preventDefault();
+        if (!onRangeChange) return;
+        const [start, end] = xScale.domain().map(Number);
+        const center =
+          currentIndex === null ? (start + end) / 2 : +xValues[rowIndex];
+        const factor = ["+", "="].includes(event.key)
+          ? 1 / KEYBOARD_ZOOM_FACTOR
+          : KEYBOARD_ZOOM_FACTOR;
+        onRangeChange([
+          center - (center - start) * factor,
+          center + (end - center) * factor,
+        ]);
+        return;
+      }
+      default:
+        return;
+    }
+    event.preventDefault();
+    moveKeyboardCursor(selection, rowIndex, label, isKeyboardTooltipShown);
+    // Like a click on the point, which is only there when it has a value
+    const row = data.at(rowIndex);
+    if (event.key === "Enter" && row && getValue(label, rowIndex) !== null) {
+      onPointClick?.(row, rowIndex, label);
+    }
+  };
+
   const setupChartEventListeners = (
     selection: Selection<SVGElement, unknown, null, undefined>
   ) => {
+    // The plot is focusable to move the cursor with the keyboard
+    selection
+      .attr("tabindex", isStatic ? null : 0)
+      .attr("role", isStatic ? "img" : "application")
+      .attr("aria-roledescription", isStatic ? null : "chart");
     // Cursor interaction (only if not static)
     if (isStatic) return;
     // Remove previous event listeners before adding new ones
     selection
       .on("pointermove", null)
       .on("pointerover", null)
-      .on("pointerout", null);
+      .on("pointerout", null)
+      .on("pointerleave", null)
+      .on("click", null)
+      .on("keydown", null)
+      .on("blur", null);
 
     // Throttle pointermove handler for performance
     let lastMove = 0;
@@ -516,13 +1951,24 @@ export const createTimeVizChart = () => {
 
     selection
       .on("pointermove", throttledPointerMove)
-      .on("pointerover", handleClosestPointOver)
-      .on("pointerout", handleClosestPointOut);
+      .on("click", handlePointClick)
+      .on("keydown", (event: KeyboardEvent) => handleKeyDown(event, selection))
+      .on("blur", () => {
+        isKeyboardTooltipShown = false;
+      });
+    // The shared tooltip follows the cursor line instead of the points
+    if (tooltipMode === "shared") {
+      selection.on("pointerleave", hideSharedTooltip);
+    } else {
+      selection
+        .on("pointerover", handleClosestPointOver)
+        .on("pointerout", handleClosestPointOut);
+    }
   };
 
   const validateSetup = (): boolean => {
-    if (!series || !Array.isArray(series) || !series.length) {
-      console.warn("[d3-time-viz] Chart series is missing or empty.");
+    if (!series || !Array.isArray(series)) {
+      console.warn("[d3-time-viz] Chart series is missing.");
       return false;
     }
     if (!data || !Array.isArray(data) || !data.length) {
@@ -533,6 +1979,10 @@ export const createTimeVizChart = () => {
       console.warn("[d3-time-viz] xSerie accessor is missing.");
       return false;
     }
+    if (renderer === "canvas" && !canvas) {
+      console.warn("[d3-time-viz] Canvas renderer requires a canvas element.");
+      return false;
+    }
     if (
       !colorScale ||
       typeof colorScale !== "function" ||
@@ -573,6 +2023,9 @@ export const createTimeVizChart = () => {
     }
 
     selection.attr("viewBox", `0 0 ${width} ${height}`);
+    margin = { ...baseMargin };
+    legendMargin = { top: 0, right: 0, bottom: 0, left: 0 };
+    renderLegend(selection, width, height);
     innerWidth = width - (margin.left + margin.right);
     innerHeight = height - (margin.top + margin.bottom);
     if (innerWidth <= 0 || innerHeight <= 0) {
@@ -580,48 +2033,71 @@ export const createTimeVizChart = () => {
       return;
     }
 
-    const xVals = data.map(xSerie);
-    const [xMin, xMax] = d3.extent(xVals);
-    if (!(xMin instanceof Date && xMax instanceof Date)) {
+    xValues = data.map(xSerie);
+    if (!xValues.every((x) => isXValue(x, xScaleType))) {
       console.warn(
-        "[d3-time-viz] xSerie must return Date objects for all data points."
+        xScaleType === "time"
+          ? "[d3-time-viz] xSerie must return Date objects for all data points."
+          : "[d3-time-viz] xSerie must return numbers for all data points."
       );
       return;
     }
-    xScale = d3
-      .scaleTime()
-      .domain([xMin, xMax])
-      .range([margin.left, innerWidth + margin.left])
-      .nice();
-
-    // Y scale (all series)
-    const yVals = data.flatMap((d: ChartDataRow) =>
-      series.map(({ accessor }: TimeVizSeriesConfig) => accessor(d))
+    const [xMin = 0, xMax = 0] = d3.extent(xValues, (x) => +x);
+    xScale = createXScale(
+      xScaleType,
+      xDomain ?? [xMin, xMax],
+      [margin.left, innerWidth + margin.left],
+      utc
     );
+    // An explicit domain is the range chosen by the user, so it is kept as is
+    if (!xDomain) xScale.nice();
 
-    const [yMin, yMax] = d3.extent(yVals);
-    if (!(typeof yMin === "number" && typeof yMax === "number")) {
+    // Y scales, the left one falls back to the right series when it has none
+    const rightSeries = series.filter(({ axis }) => axis === "right");
+    const leftSeries = series.filter(({ axis }) => axis !== "right");
+    seriesValues = new Map(
+      series.map((serie) => [serie.label, resolveValues(serie)])
+    );
+    stackedValues = new Map(
+      stackMode === "none"
+        ? []
+        : [...computeStack(leftSeries), ...computeStack(rightSeries)]
+    );
+    // Without series, the plot is drawn empty on the default domain of 0 to 1
+    const leftScale = series.length
+      ? createYScale(leftSeries.length ? leftSeries : rightSeries)
+      : d3.scaleLinear().range([innerHeight + margin.top, margin.top]);
+    const rightScale = rightSeries.length ? createYScale(rightSeries) : null;
+    if (!leftScale || (rightSeries.length && !rightScale)) {
       console.warn(
-        "[d3-time-viz] Series accessors must return numbers for all data points."
+        "[d3-time-viz] Series accessors must return a number for at least one data point."
       );
       return;
     }
-    yScale = d3
-      .scaleLinear()
-      .domain([yMin, yMax])
-      .range([innerHeight + margin.top, margin.top])
-      .nice();
+    yScale = leftScale;
+    yScaleRight = rightScale;
+    hasLeftAxis = leftSeries.length > 0;
+    // Stacked bars are drawn on top of each other, so they share the full band
+    barLabels =
+      stackMode === "none"
+        ? series.filter(({ type }) => type === "bar").map(({ label }) => label)
+        : [];
+    bandWidth = computeBandWidth();
 
     selection
       .call(renderXAxis)
       .call(renderXGrid)
       .call(renderXAxisLabel)
       .call(renderYAxis)
+      .call(renderYAxisRight)
       .call(renderYGrid)
       .call(renderYAxisLabel)
+      .call(renderYAxisRightLabel)
       .call(renderSeries)
-      .call(renderLegend);
+      .call(renderBrush)
+      .call(renderAnnotations);
 
+    setupZoom(selection);
     setupChartEventListeners(selection);
   };
 
@@ -639,6 +2115,198 @@ export const createTimeVizChart = () => {
     return chart;
   };
 
+  /**
+   * Sets the type of the x-axis.
+   * @param type - `"time"` for dates, or `"linear"` for plain numbers.
+   * @returns The chart instance for chaining.
+   */
+  chart.xScaleType = (type: XScaleType) => {
+    if (!["time", "linear"].includes(type)) {
+      console.warn('xScaleType must be "time" or "linear"');
+      return chart;
+    }
+    xScaleType = type;
+    return chart;
+  };
+
+  /**
+   * Sets whether the time scale and the tick format use UTC instead of the local time.
+   * @param bool - A boolean indicating whether to use UTC.
+   * @returns The chart instance for chaining.
+   */
+  chart.utc = (bool: boolean) => {
+    if (typeof bool !== "boolean") {
+      console.warn("utc must be a boolean");
+      return chart;
+    }
+    utc = bool;
+    return chart;
+  };
+
+  /**
+   * Sets the function that converts the x values of the chart to the x values
+   * shown in the tooltip.
+   * @param converter - A function that receives the x value of the chart.
+   * @returns The chart instance for chaining.
+   */
+  chart.datumX = (converter: (x: Date | number) => Date | number) => {
+    if (typeof converter !== "function") {
+      console.warn("datumX must be a function");
+      return chart;
+    }
+    datumX = converter;
+    return chart;
+  };
+
+  /**
+   * Sets the visible range of the x-axis.
+   * @param domain - The start and end values, or `null` to use the extent of the data.
+   * @returns The chart instance for chaining.
+   */
+  chart.xDomain = (domain: [Date | number, Date | number] | null) => {
+    if (
+      domain !== null &&
+      !(
+        Array.isArray(domain) &&
+        domain.length === 2 &&
+        domain.every((d) => d instanceof Date || typeof d === "number")
+      )
+    ) {
+      console.warn("xDomain must be an array of two dates or numbers, or null");
+      return chart;
+    }
+    xDomain = domain;
+    return chart;
+  };
+
+  /**
+   * Sets the callback called when the user brushes, zooms or pans the x-axis.
+   * @param callback - A function that receives the new start and end values.
+   * @returns The chart instance for chaining.
+   */
+  chart.onRangeChange = (
+    callback: (range: [Date | number, Date | number]) => void
+  ) => {
+    if (typeof callback !== "function") {
+      console.warn("onRangeChange must be a function");
+      return chart;
+    }
+    onRangeChange = callback;
+    return chart;
+  };
+
+  /**
+   * Sets the callback called when the cursor moves to another row.
+   * @param callback - A function that receives the row under the cursor and its
+   * index in the data, or `null` when the cursor leaves the plot area.
+   * @returns The chart instance for chaining.
+   */
+  chart.onCursorMove = (
+    callback: (row: ChartDataRow | null, rowIndex: number | null) => void
+  ) => {
+    if (typeof callback !== "function") {
+      console.warn("onCursorMove must be a function");
+      return chart;
+    }
+    onCursorMove = callback;
+    return chart;
+  };
+
+  /**
+   * Sets the callback called when a cursor point is clicked.
+   * @param callback - A function that receives the row of the point, its index in
+   * the data and the label of its series.
+   * @returns The chart instance for chaining.
+   */
+  chart.onPointClick = (
+    callback: (row: ChartDataRow, rowIndex: number, label: string) => void
+  ) => {
+    if (typeof callback !== "function") {
+      console.warn("onPointClick must be a function");
+      return chart;
+    }
+    onPointClick = callback;
+    return chart;
+  };
+
+  /**
+   * Sets the callback called with the text to announce to screen readers when the
+   * cursor is moved with the keyboard.
+   * @param callback - A function that receives the X value of the row under the
+   * cursor and the values of the series, starting with the focused one.
+   * @returns The chart instance for chaining.
+   */
+  chart.onAnnounce = (callback: (message: string) => void) => {
+    if (typeof callback !== "function") {
+      console.warn("onAnnounce must be a function");
+      return chart;
+    }
+    onAnnounce = callback;
+    return chart;
+  };
+
+  /**
+   * Sets the position of the legend.
+   * @param position - `"top"`, `"bottom"`, `"left"`, `"right"`, or `"none"` to hide it.
+   * @returns The chart instance for chaining.
+   */
+  chart.legendPosition = (position: Exclude<LegendPosition, "slot">) => {
+    if (!["top", "bottom", "left", "right", "none"].includes(position)) {
+      console.warn(
+        'legendPosition must be "top", "bottom", "left", "right" or "none"'
+      );
+      return chart;
+    }
+    legendPosition = position;
+    return chart;
+  };
+
+  /**
+   * Sets how the tooltip is shown.
+   * @param mode - `"point"` to show the values of one series over its cursor point,
+   * or `"shared"` to show the values of all the series at the cursor line.
+   * @returns The chart instance for chaining.
+   */
+  chart.tooltipMode = (mode: TooltipMode) => {
+    if (!["point", "shared"].includes(mode)) {
+      console.warn('tooltipMode must be "point" or "shared"');
+      return chart;
+    }
+    tooltipMode = mode;
+    return chart;
+  };
+
+  /**
+   * Sets the series shown in the legend, including the hidden ones.
+   * @param fields - An array of series configurations, or `null` to show the drawn series.
+   * @returns The chart instance for chaining.
+   */
+  chart.legendSeries = (fields: TimeVizSeriesConfig[] | null) => {
+    if (fields !== null && !Array.isArray(fields)) {
+      console.warn("legendSeries must be an array or null");
+      return chart;
+    }
+    legendSeries = fields;
+    return chart;
+  };
+
+  /**
+   * Sets the callback called when the user toggles a series from the legend.
+   * @param callback - A function that receives the label of the series, and whether
+   * to isolate it instead of toggling it.
+   * @returns The chart instance for chaining.
+   */
+  chart.onLegendToggle = (
+    callback: (label: string, isolate: boolean) => void
+  ) => {
+    if (typeof callback !== "function") {
+      console.warn("onLegendToggle must be a function");
+      return chart;
+    }
+    onLegendToggle = callback;
+    return chart;
+  };
+
   /**
    * Sets the series configuration.
    * @param fields - An array of series configurations.
@@ -699,6 +2367,104 @@ export const createTimeVizChart = () => {
     return chart;
   };
 
+  /**
+   * Sets the stacking mode of the series.
+   * @param mode - `"none"`, `"stacked"` for absolute values or `"normalized"` for shares of 100%.
+   * @returns The chart instance for chaining.
+   */
+  chart.stackMode = (mode: StackMode) => {
+    if (!["none", "stacked", "normalized"].includes(mode)) {
+      console.warn('stackMode must be "none", "stacked" or "normalized"');
+      return chart;
+    }
+    stackMode = mode;
+    return chart;
+  };
+
+  /**
+   * Sets how the missing values of the series are drawn.
+   * @param policy - `"break"` the line, `"connect"` the known values, treat them as `"zero"` or `"carry"` the last known value forward.
+   * @returns The chart instance for chaining.
+   */
+  chart.gapPolicy = (policy: GapPolicy) => {
+    if (!["break", "connect", "zero", "carry"].includes(policy)) {
+      console.warn('gapPolicy must be "break", "connect", "zero" or "carry"');
+      return chart;
+    }
+    gapPolicy = policy;
+    return chart;
+  };
+
+  /**
+   * Sets the largest x distance between two points that is still drawn as a continuous line.
+   * @param threshold - The distance in milliseconds, or `0` to never break the line.
+   * @returns The chart instance for chaining.
+   */
+  chart.gapThreshold = (threshold: number) => {
+    if (typeof threshold !== "number" || threshold < 0) {
+      console.warn("gapThreshold must be a non-negative number");
+      return chart;
+    }
+    gapThreshold = threshold;
+    return chart;
+  };
+
+  /**
+   * Sets the annotations of the chart.
+   * @param list - An array of event markers, shaded ranges, reference lines and callouts.
+   * @returns The chart instance for chaining.
+   */
+  chart.annotations = (list: TimeVizAnnotation[]) => {
+    if (!Array.isArray(list)) {
+      console.warn("annotations must be an array");
+      return chart;
+    }
+    annotations = list;
+    return chart;
+  };
+
+  /**
+   * Sets the renderer of the series.
+   * @param type - `"svg"` to draw the series as SVG elements, or `"canvas"` to draw them on the canvas set with `canvas`.
+   * @returns The chart instance for chaining.
+   */
+  chart.renderer = (type: ChartRenderer) => {
+    if (!["svg", "canvas"].includes(type)) {
+      console.warn('renderer must be "svg" or "canvas"');
+      return chart;
+    }
+    renderer = type;
+    return chart;
+  };
+
+  /**
+   * Sets the canvas used by the canvas renderer.
+   * @param element - A canvas element layered under the SVG element, with the same size.
+   * @returns The chart instance for chaining.
+   */
+  chart.canvas = (element: HTMLCanvasElement | null) => {
+    if (element !== null && !(element instanceof HTMLCanvasElement)) {
+      console.warn("canvas must be a canvas element or null");
+      return chart;
+    }
+    canvas = element;
+    return chart;
+  };
+
+  /**
+   * Sets the downsampling of the series before they are drawn.
+   * @param method - `"none"`, `"lttb"` for Largest-Triangle-Three-Buckets or `"minmax"` for the minimum and maximum of each bucket.
+   * @returns The chart instance for chaining.
+   */
+  chart.downsample = (method: DownsampleMethod) => {
+    if (!["none", "lttb", "minmax"].includes(method)) {
+      console.warn('downsample must be "none", "lttb" or "minmax"');
+      return chart;
+    }
+    downsample = method;
+    return chart;
+  };
+
   /**
    * Sets the static state of the chart.
    * @param bool - A boolean indicating whether the chart should be static.
@@ -755,6 +2521,20 @@ export const createTimeVizChart = () => {
     return chart;
   };
 
+  /**
+   * Sets the number of ticks on the right y-axis.
+   * @param quantity - The number of ticks.
+   * @returns The chart instance for chaining.
+   */
+  chart.yTicksRight = (quantity: number) => {
+    if (typeof quantity !== "number" || quantity < 0) {
+      console.warn("yTicksRight must be a non-negative number");
+      return chart;
+    }
+    yTicksRight = quantity;
+    return chart;
+  };
+
   /**
    * Sets the margin for the chart.
    * @param marg - An object specifying the margin values.
@@ -765,7 +2545,7 @@ export const createTimeVizChart = () => {
       console.warn("margin must be an object");
       return chart;
     }
-    margin = { ...margin, ...marg };
+    baseMargin = { ...baseMargin, ...marg };
     return chart;
   };
 
@@ -797,6 +2577,20 @@ export const createTimeVizChart = () => {
     return chart;
   };
 
+  /**
+   * Sets the format for the right y-axis ticks.
+   * @param format - A string specifying the tick format.
+   * @returns The chart instance for chaining.
+   */
+  chart.formatYAxisRight = (format: string) => {
+    if (typeof format !== "string") {
+      console.warn("formatYAxisRight must be a string");
+      return chart;
+    }
+    formatYAxisRight = format;
+    return chart;
+  };
+
   /**
    * Sets the label for the y-axis.
    * @param label - A string specifying the y-axis label.
@@ -811,6 +2605,20 @@ export const createTimeVizChart = () => {
     return chart;
   };
 
+  /**
+   * Sets the label for the right y-axis.
+   * @param label - A string specifying the right y-axis label.
+   * @returns The chart instance for chaining.
+   */
+  chart.yAxisRightLabel = (label: string) => {
+    if (typeof label !== "string") {
+      console.warn("yAxisRightLabel must be a string");
+      return chart;
+    }
+    yAxisRightLabel = label;
+    return chart;
+  };
+
   /**
    * Sets the label for the x-axis.
    * @param label - A string specifying the x-axis label.
@@ -839,5 +2647,33 @@ export const createTimeVizChart = () => {
     return chart;
   };
 
+  /**
+   * Moves the cursor to the row closest to an X value, without showing the tooltip
+   * or calling `onCursorMove`. It lets another chart drive the cursor of this one.
+   * @param selection - The D3 selection of the SVG element the chart was drawn in.
+   * @param x - The X value, or `null` to hide the cursor. Values outside of the
+   * visible range hide it too.
+   * @returns The chart instance for chaining.
+   */
+  chart.moveCursor = (
+    selection: Selection<SVGElement, unknown, null, undefined>,
+    x: Date | number | null
+  ) => {
+    if (isStatic || !xScale || !data?.length) return chart;
+    const [start, end] = xScale.domain();
+    if (x === null || +x < +start || +x > +end) {
+      selection.selectAll(".cursor").classed("hidden", true);
+      lastCursorIdx = null;
+      return chart;
+    }
+    const idx = d3.bisector((d: Date | number) => +d).center(xValues, +x);
+    const rowIndex = Math.max(0, Math.min(idx, data.length - 1));
+    const row = data.at(rowIndex);
+    if (!row || lastCursorIdx === rowIndex) return chart;
+    lastCursorIdx = rowIndex;
+    selection.call(renderCursor, row, rowIndex);
+    return chart;
+  };
+
   return chart;
 };
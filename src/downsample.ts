@@ -0,0 +1,136 @@
+import * as d3 from "d3";
+
+/**
+ * @module downsample
+ * @description
+ * This module provides visual-preserving downsampling algorithms for time series.
+ * They keep a subset of the original points, so the points still carry their own data.
+ */
+
+export interface DownsamplePoint {
+  x: Date | number;
+  y: number;
+}
+
+/**
+ * Computes twice the area of the triangle formed by three points.
+ * @param a - The first point.
+ * @param b - The second point.
+ * @param c - The third point as `[x, y]`.
+ * @returns The doubled area, enough to compare triangles.
+ */
+const triangleArea = (
+  a: DownsamplePoint,
+  b: DownsamplePoint,
+  [cx, cy]: [number, number]
+): number => Math.abs((+a.x - cx) * (b.y - a.y) - (+a.x - +b.x) * (cy - a.y));
+
+/**
+ * Returns the bounds of a bucket of the points between the first and the last one.
+ * @param index - The index of the bucket.
+ * @param bucketSize - The number of points of a bucket.
+ * @param length - The number of points.
+ * @returns The start and end indexes of the bucket, the end being excluded.
+ */
+const getBucketBounds = (
+  index: number,
+  bucketSize: number,
+  length: number
+): [number, number] => [
+  Math.floor(index * bucketSize) + 1,
+  Math.min(Math.floor((index + 1) * bucketSize) + 1, length - 1),
+];
+
+/**
+ * Downsamples points with the Largest-Triangle-Three-Buckets algorithm.
+ * @description
+ * The points between the first and the last one are split in buckets, and each bucket
+ * keeps the point that forms the largest triangle with the point kept in the previous
+ * bucket and the average of the next bucket.
+ * @param points - The points sorted by x.
+ * @param threshold - The number of points to keep.
+ * @returns The kept points, or the same points when there are fewer than the threshold.
+ * @example
+ * ```ts
+ * const sampled = lttb(points, 500);
+ * ```
+ */
+export const lttb = <T extends DownsamplePoint>(
+  points: T[],
+  threshold: number
+): T[] => {
+  const first = points.at(0);
+  const last = points.at(-1);
+  if (threshold < 3 || points.length <= threshold || !(first && last)) {
+    return points;
+  }
+
+  const bucketCount = threshold - 2;
+  const bucketSize = (points.length - 2) / bucketCount;
+  let previous: T = first;
+
+  const sampled = Array.from({ length: bucketCount }, (_, i) => {
+    const [start, end] = getBucketBounds(i, bucketSize, points.length);
+    const [nextStart, nextEnd] = getBucketBounds(
+      i + 1,
+      bucketSize,
+      points.length
+    );
+    const nextBucket = points.slice(
+      nextStart,
+      Math.max(nextEnd, nextStart + 1)
+    );
+    const average: [number, number] = [
+      d3.mean(nextBucket, ({ x }) => +x) ?? +last.x,
+      d3.mean(nextBucket, ({ y }) => y) ?? last.y,
+    ];
+    const selected =
+      d3.greatest(points.slice(start, Math.max(end, start + 1)), (point) =>
+        triangleArea(previous, point, average)
+      ) ?? previous;
+    previous = selected;
+    return selected;
+  });
+
+  return [first, ...sampled, last];
+};
+
+/**
+ * Downsamples points by keeping the minimum and maximum of each bucket.
+ * @description
+ * The points between the first and the last one are split in buckets of the same size,
+ * and each bucket keeps its lowest and highest points in their original order,
+ * so the peaks of the series are never lost.
+ * @param points - The points sorted by x.
+ * @param threshold - The number of points to keep, two per bucket.
+ * @returns The kept points, or the same points when there are fewer than the threshold.
+ * @example
+ * ```ts
+ * const sampled = minMax(points, 500);
+ * ```
+ */
+export const minMax = <T extends DownsamplePoint>(
+  points: T[],
+  threshold: number
+): T[] => {
+  const first = points.at(0);
+  const last = points.at(-1);
+  if (threshold < 4 || points.length <= threshold || !(first && last)) {
+    return points;
+  }
+
+  const bucketCount = Math.floor((threshold - 2) / 2);
+  const bucketSize = (points.length - 2) / bucketCount;
+
+  const sampled = Array.from({ length: bucketCount }, (_, i) => {
+    const [start, end] = getBucketBounds(i, bucketSize, points.length);
+    const bucket = points.slice(start, Math.max(end, start + 1));
+    const minIndex = d3.minIndex(bucket, ({ y }) => y);
+    const maxIndex = d3.maxIndex(bucket, ({ y }) => y);
+    return [...new Set(d3.sort([minIndex, maxIndex]))]
+      .map((index) => bucket.at(index))
+      .filter((point): point is T => point !== undefined);
+  }).flat();
+
+  return [first, ...sampled, last];
+};
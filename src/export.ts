@@ -0,0 +1,141 @@
+/**
+ * @module export
+ * @description
+ * This module provides functions to export a chart as a standalone SVG, a PNG image or a CSV file.
+ */
+
+export interface CsvColumn<T> {
+  label: string;
+  accessor: (row: T) => unknown;
+}
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+/**
+ * Serializes an SVG element as a standalone SVG document.
+ * @description
+ * The styles are inlined in a `<style>` element, since the styles of a shadow root
+ * do not apply outside of it. When the series are drawn on a canvas, the canvas is
+ * embedded as an image below the content of the SVG element.
+ * @param svg - The SVG element to serialize.
+ * @param css - The CSS rules to inline.
+ * @param canvas - The canvas layered under the SVG element, if any.
+ * @param backgroundColor - The color painted behind the content.
+ * @returns The SVG document as a string.
+ */
+export const serializeSvg = (
+  svg: SVGElement,
+  css: string,
+  canvas?: HTMLCanvasElement | null,
+  backgroundColor = "white"
+): string => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGElement;
+  clone.setAttribute("xmlns", SVG_NAMESPACE);
+  clone.setAttribute("width", `${width}`);
+  clone.setAttribute("height", `${height}`);
+
+  const style = document.createElementNS(SVG_NAMESPACE, "style");
+  style.textContent = css;
+  const background = document.createElementNS(SVG_NAMESPACE, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", backgroundColor);
+  const layers: Element[] = [style, background];
+
+  if (canvas) {
+    const image = document.createElementNS(SVG_NAMESPACE, "image");
+    image.setAttribute("href", canvas.toDataURL("image/png"));
+    image.setAttribute("width", `${width}`);
+    image.setAttribute("height", `${height}`);
+    image.setAttribute("opacity", getComputedStyle(canvas).opacity);
+    layers.push(image);
+  }
+
+  clone.prepend(...layers);
+  return new XMLSerializer().serializeToString(clone);
+};
+
+/**
+ * Rasterizes an SVG document as a PNG image.
+ * @param svgString - The standalone SVG document.
+ * @param width - The width of the SVG document in pixels.
+ * @param height - The height of the SVG document in pixels.
+ * @param scale - The factor applied to the size of the image.
+ * @returns A promise that resolves with the PNG image.
+ */
+export const rasterizeSvg = async (
+  svgString: string,
+  width: number,
+  height: number,
+  scale: number
+): Promise<Blob> => {
+  const url = URL.createObjectURL(
+    new Blob([svgString], { type: "image/svg+xml;charset=utf-8" })
+  );
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas 2D context is not available");
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("PNG export failed")),
+        "image/png"
+      )
+    );
+  } finally {
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+};
+
+/**
+ * Formats a value as a CSV field.
+ * @param value - The value of the field.
+ * @returns The field, quoted when it has a separator, a quote or a line break.
+ */
+const toCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number" && !Number.isFinite(value)) return "";
+  const text = value instanceof Date ? value.toISOString() : `${value}`;
+  return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+/**
+ * Formats rows as CSV.
+ * @param rows - The rows to format.
+ * @param columns - The columns with their header label and accessor.
+ * @returns The CSV text, with a header line.
+ */
+export const toCsv = <T>(rows: T[], columns: Array<CsvColumn<T>>): string =>
+  [
+    columns.map(({ label }) => toCsvField(label)).join(","),
+    ...rows.map((row) =>
+      columns.map(({ accessor }) => toCsvField(accessor(row))).join(",")
+    ),
+  ].join("\n");
+
+/**
+ * Downloads a blob as a file.
+ * @param blob - The content of the file.
+ * @param filename - The name of the file.
+ * @returns {void}
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers cancel the download when the URL is revoked right away
+  setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -1,5 +1,9 @@
 export { TimeViz } from "./time-viz";
+export { TimeVizSeries } from "./time-viz-series";
+export { TimeVizX } from "./time-viz-x";
 export * from "./types";
+export { resample } from "./resample";
+export type { ResampledRow, ResampleOptions } from "./resample";
 
 // Auto-register the component when the module is imported
 import "./time-viz";
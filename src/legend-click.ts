@@ -0,0 +1,52 @@
+/**
+ * @module legend-click
+ * @description
+ * This module tells the clicks on a legend item apart from its double-clicks, for the
+ * SVG legend of the chart and the HTML legend of the component alike.
+ */
+
+// Time a click on a legend item waits for a second click, in milliseconds
+const LEGEND_DOUBLE_CLICK_DELAY = 250;
+
+/**
+ * Creates the click and double-click handlers of the items of a legend.
+ * @description
+ * A click waits for a possible second click, so a double-click only isolates the
+ * series without toggling it twice first. A shift-click isolates the series and the
+ * clicks of the keyboard, which have no click count, toggle it right away.
+ * @param onToggle - The function called with the label of the series and whether to
+ * isolate it instead of toggling it.
+ * @returns The handlers of the `click` and `dblclick` events.
+ * @example
+ * ```ts
+ * const legendClick = createLegendClickHandlers((label, isolate) => {
+ *   isolate ? isolateSeries(label) : toggleSeries(label);
+ * });
+ * item.addEventListener("click", (event) => legendClick.click(event, label));
+ * item.addEventListener("dblclick", () => legendClick.dblclick(label));
+ * ```
+ */
+export const createLegendClickHandlers = (
+  onToggle: (label: string, isolate: boolean) => void
+) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return {
+    click: (event: MouseEvent, label: string): void => {
+      // The second click of a double-click is left to the dblclick handler
+      if (event.detail > 1) return;
+      clearTimeout(timer);
+      if (event.shiftKey || !event.detail) {
+        onToggle(label, event.shiftKey);
+        return;
+      }
+      timer = setTimeout(
+        () => onToggle(label, false),
+        LEGEND_DOUBLE_CLICK_DELAY
+      );
+    },
+    dblclick: (label: string): void => {
+      clearTimeout(timer);
+      onToggle(label, true);
+    },
+  };
+};
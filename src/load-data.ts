@@ -0,0 +1,108 @@
+import * as d3 from "d3";
+import { fromZonedDate } from "./time-zone";
+import type { ChartDataRow, DataFormat } from "./types";
+
+/**
+ * @module load-data
+ * @description
+ * This module provides functions to load the rows of a chart from a URL, and to parse
+ * the text values of CSV and TSV files as dates and numbers.
+ */
+
+/**
+ * Guesses the format of a data file from the extension of its URL.
+ * @param url - The URL of the file.
+ * @returns The format of the file, CSV when the extension is unknown.
+ */
+export const guessDataFormat = (url: string): DataFormat => {
+  const { pathname } = new URL(url, document.baseURI);
+  const extension = pathname.split(".").at(-1)?.toLowerCase();
+  switch (extension) {
+    case "tsv":
+    case "json":
+    case "ndjson":
+      return extension;
+    case "jsonl":
+      return "ndjson";
+    default:
+      return "csv";
+  }
+};
+
+/**
+ * Loads the rows of a data file.
+ * @param url - The URL of the file.
+ * @param format - The format of the file.
+ * @param signal - The signal that aborts the request.
+ * @returns A promise that resolves with the rows, with the values of CSV and TSV files as text.
+ * It rejects when the format is not supported, like a `format` attribute set by hand.
+ */
+export const loadRows = async (
+  url: string,
+  format: DataFormat,
+  signal?: AbortSignal
+): Promise<ChartDataRow[]> => {
+  switch (format) {
+    case "csv":
+      return d3.csv(url, { signal });
+    case "tsv":
+      return d3.tsv(url, { signal });
+    case "json": {
+      const rows = await d3.json<unknown>(url, { signal });
+      if (!Array.isArray(rows)) {
+        throw new Error("JSON data must be an array of rows");
+      }
+      return rows as ChartDataRow[];
+    }
+    case "ndjson": {
+      const text = await d3.text(url, { signal });
+      return text
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as ChartDataRow);
+    }
+    default:
+      throw new Error(`Unsupported format: ${format}`);
+  }
+};
+
+/**
+ * Creates the parser of the X values of the rows.
+ * @description
+ * With a parse format, text is parsed as the wall-clock time of the time zone. Otherwise,
+ * numeric text becomes a number, so epoch timestamps keep working, and any other text
+ * is parsed by the `Date` constructor, like ISO 8601 dates.
+ * @param parseFormat - The D3 time format of the text dates, if any.
+ * @param timeZone - `"local"`, `"UTC"` or an IANA time zone.
+ * @returns A function returning the date or number of a raw value, or `null` when the
+ * value cannot be parsed.
+ */
+export const createXParser = (
+  parseFormat = "",
+  timeZone = "local"
+): ((value: unknown) => Date | number | null) => {
+  const parseTime = parseFormat ? d3.utcParse(parseFormat) : null;
+  return (value) => {
+    if (value instanceof Date || typeof value === "number") return value;
+    if (typeof value !== "string" || !value.trim()) return null;
+    if (parseTime) {
+      const date = parseTime(value);
+      return date && fromZonedDate(date, timeZone);
+    }
+    const number = Number(value);
+    if (Number.isFinite(number)) return number;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  };
+};
+
+/**
+ * Parses a Y value of a row.
+ * @param value - The raw value.
+ * @returns The number, or `null` for a missing value.
+ */
+export const parseYValue = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
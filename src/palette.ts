@@ -0,0 +1,79 @@
+import * as d3 from "d3";
+import type { TimeVizPalette } from "./types";
+
+/**
+ * @module palette
+ * @description
+ * This module resolves the palettes of the series, given as D3 schemes, D3
+ * interpolators, color arrays or their names, to a list of colors.
+ */
+
+// Colors sampled from an interpolator, as many as in the categorical schemes
+const INTERPOLATOR_SIZE = 10;
+
+/**
+ * Finds a D3 scheme or interpolator by name.
+ * @param name - The name, with or without the `scheme` or `interpolate` prefix,
+ * e.g. `"Tableau10"`, `"schemeTableau10"` or `"Viridis"`.
+ * @returns The scheme or interpolator, or `null` when D3 has none by that name.
+ */
+const findD3Palette = (
+  name: string
+): Exclude<TimeVizPalette, string> | null => {
+  const d3Exports = d3 as unknown as Record<string, unknown>;
+  for (const key of [name, `scheme${name}`, `interpolate${name}`]) {
+    const palette = d3Exports[key];
+    if (
+      (key.startsWith("scheme") && Array.isArray(palette)) ||
+      (key.startsWith("interpolate") && typeof palette === "function")
+    ) {
+      return palette as Exclude<TimeVizPalette, string>;
+    }
+  }
+  return null;
+};
+
+/**
+ * Resolves a palette to a list of colors.
+ * @description
+ * A string is a comma-separated list of colors, a single color, or the name of a D3
+ * scheme or interpolator. The number of colors does not depend on the number of
+ * series, so a series keeps its color when others are added: sequential schemes,
+ * which have one array of colors per size, use their largest size, and interpolators
+ * are sampled at 10 evenly spaced points.
+ * @param palette - The palette to resolve.
+ * @returns The colors, or `null` when the palette is not valid.
+ * @example
+ * ```ts
+ * resolvePalette("Tableau10"); // The 10 colors of d3.schemeTableau10
+ * resolvePalette(d3.interpolateViridis); // 10 colors sampled from Viridis
+ * resolvePalette("#c00, rgb(0, 204, 0)"); // ["#c00", "rgb(0, 204, 0)"]
+ * resolvePalette("steelblue"); // ["steelblue"]
+ * ```
+ */
+export const resolvePalette = (
+  palette: TimeVizPalette
+): readonly string[] | null => {
+  if (typeof palette === "string") {
+    // The commas within parentheses belong to colors like rgb(0, 204, 0)
+    const colors = palette
+      .split(/,(?![^(]*\))/)
+      .map((color) => color.trim())
+      .filter(Boolean);
+    if (colors.length !== 1) return colors.length ? colors : null;
+    const named = findD3Palette(colors[0]);
+    if (named) return resolvePalette(named);
+    return d3.color(colors[0]) ? colors : null;
+  }
+  if (typeof palette === "function") {
+    return d3.quantize(palette, INTERPOLATOR_SIZE);
+  }
+  if (!Array.isArray(palette) || !palette.length) return null;
+  if (palette.every((color) => typeof color === "string")) {
+    return palette as readonly string[];
+  }
+  // A sequential scheme, indexed by size, with empty entries for the small sizes
+  const sizes = palette as ReadonlyArray<readonly string[] | undefined>;
+  const colors = [...sizes].reverse().find(Boolean);
+  return colors?.length ? colors : null;
+};
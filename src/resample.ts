@@ -0,0 +1,120 @@
+import * as d3 from "d3";
+import type {
+  AggregateMethod,
+  ResampleInterval,
+  TimeVizSeriesConfig,
+} from "./types";
+
+/**
+ * @module resample
+ * @description
+ * This module provides the resampling of time series into time buckets, such as
+ * hours or days, with one aggregated value per series and bucket.
+ */
+
+export interface ResampledRow {
+  x: Date;
+  values: Record<string, number | null>;
+}
+
+export interface ResampleOptions<T> {
+  x: (row: T) => Date | number;
+  series: Array<
+    Pick<TimeVizSeriesConfig<T>, "label" | "accessor" | "aggregate">
+  >;
+  interval: ResampleInterval;
+  aggregate?: AggregateMethod;
+  utc?: boolean;
+}
+
+/**
+ * The local and UTC time intervals of each resample interval.
+ */
+const RESAMPLE_INTERVALS: Record<
+  ResampleInterval,
+  [d3.TimeInterval, d3.TimeInterval]
+> = {
+  minute: [d3.timeMinute, d3.utcMinute],
+  hour: [d3.timeHour, d3.utcHour],
+  day: [d3.timeDay, d3.utcDay],
+  week: [d3.timeWeek, d3.utcWeek],
+  month: [d3.timeMonth, d3.utcMonth],
+  quarter: [
+    d3.timeMonth.every(3) ?? d3.timeMonth,
+    d3.utcMonth.every(3) ?? d3.utcMonth,
+  ],
+  year: [d3.timeYear, d3.utcYear],
+};
+
+/**
+ * The functions that aggregate the values of a bucket, which are never empty
+ * since a bucket only exists when it has rows.
+ */
+const AGGREGATORS: Record<
+  AggregateMethod,
+  (values: number[]) => number | null
+> = {
+  mean: (values) => d3.mean(values) ?? null,
+  sum: (values) => (values.length ? d3.sum(values) : null),
+  min: (values) => d3.min(values) ?? null,
+  max: (values) => d3.max(values) ?? null,
+  last: (values) => values.at(-1) ?? null,
+  count: (values) => values.length,
+};
+
+/**
+ * Checks whether a value of a series is a valid number.
+ * @param value - The value to check.
+ * @returns `true` if the value is a finite number.
+ */
+const isValidNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Resamples rows into time buckets.
+ * @description
+ * The rows are grouped by the start of the time bucket they fall in, and the values
+ * of each series are aggregated with its own `aggregate`, or the default one.
+ * Missing values (`null`, `undefined` or `NaN`) are left out of the aggregation,
+ * so a bucket without any value for a series has a `null` value, except for `count`.
+ * Buckets without rows are not created.
+ * @param rows - The rows to resample.
+ * @param options - The resample options.
+ * @param options.x - A function that returns the date of a row, or its timestamp in milliseconds.
+ * @param options.series - The series to aggregate, with their label and accessor.
+ * @param options.interval - The size of the time buckets.
+ * @param options.aggregate - The aggregate of the series without their own, `"mean"` by default.
+ * @param options.utc - Whether the buckets start in UTC instead of the local time.
+ * @returns One row per bucket sorted by date, with the values of the series by label.
+ * @example
+ * ```ts
+ * const daily = resample(rows, {
+ *   x: (d) => d.date,
+ *   series: [{ label: "Revenue", accessor: (d) => d.revenue, aggregate: "sum" }],
+ *   interval: "day",
+ * });
+ * ```
+ */
+export const resample = <T>(
+  rows: T[],
+  { x, series, interval, aggregate = "mean", utc = false }: ResampleOptions<T>
+): ResampledRow[] => {
+  const [localInterval, utcInterval] = RESAMPLE_INTERVALS[interval];
+  const timeInterval = utc ? utcInterval : localInterval;
+  const buckets = d3.sort(
+    d3.groups(rows, (row) => +timeInterval.floor(new Date(+x(row)))),
+    ([time]) => time
+  );
+
+  return buckets.map(([time, bucketRows]) => ({
+    x: new Date(time),
+    values: Object.fromEntries(
+      series.map(({ label, accessor, aggregate: serieAggregate }) => [
+        label,
+        AGGREGATORS[serieAggregate ?? aggregate](
+          bucketRows.map(accessor).filter(isValidNumber)
+        ),
+      ])
+    ),
+  }));
+};
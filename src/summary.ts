@@ -0,0 +1,82 @@
+/**
+ * @module summary
+ * @description
+ * This module provides the text summaries of the series, read by screen readers as
+ * the description of the chart.
+ */
+
+export interface SummaryPoint {
+  x: Date | number;
+  y: number | null | undefined;
+}
+
+type DefinedSummaryPoint = SummaryPoint & { y: number };
+
+// Relative change between the first and last values under which a series is flat
+const FLAT_TREND_RATIO = 0.01;
+
+/**
+ * Describes the trend of a series from its first to its last value.
+ * @param first - The first value.
+ * @param last - The last value.
+ * @param formatY - The formatter of the values.
+ * @returns The trend, with the change in percent when the first value is not zero.
+ */
+const describeTrend = (
+  first: number,
+  last: number,
+  formatY: (y: number) => string
+): string => {
+  const change = last - first;
+  if (first === 0) {
+    if (change === 0) return "flat";
+    return `${change > 0 ? "up" : "down"} by ${formatY(Math.abs(change))}`;
+  }
+  const ratio = change / Math.abs(first);
+  if (Math.abs(ratio) < FLAT_TREND_RATIO) return "flat";
+  const percent = `${Math.abs(ratio * 100).toFixed(1)}%`;
+  return `${ratio > 0 ? "up" : "down"} ${percent}`;
+};
+
+/**
+ * Summarizes a series as a sentence: the range it covers, its minimum and maximum
+ * with their dates, its overall trend and its last value.
+ * @param label - The label of the series.
+ * @param points - The points of the series, sorted by x.
+ * @param formatX - The formatter of the X values.
+ * @param formatY - The formatter of the values.
+ * @returns The summary of the series.
+ * @example
+ * ```ts
+ * summarizeSeries("Revenue", points, (x) => `${x}`, (y) => y.toFixed(2));
+ * // "Revenue, from 1 to 4: minimum 80.00 at 3, maximum 120.00 at 2, trending
+ * // down 5.0%, last value 95.00 at 4."
+ * ```
+ */
+export const summarizeSeries = (
+  label: string,
+  points: SummaryPoint[],
+  formatX: (x: Date | number) => string,
+  formatY: (y: number) => string
+): string => {
+  const start = points.at(0);
+  const end = points.at(-1);
+  if (!start || !end) return `${label}: no data.`;
+  const range = `from ${formatX(start.x)} to ${formatX(end.x)}`;
+  const defined = points.filter(
+    (point): point is DefinedSummaryPoint =>
+      typeof point.y === "number" && Number.isFinite(point.y)
+  );
+  if (!defined.length) return `${label}, ${range}: no data.`;
+
+  const min = defined.reduce((a, b) => (b.y < a.y ? b : a));
+  const max = defined.reduce((a, b) => (b.y > a.y ? b : a));
+  const first = defined[0];
+  const last = defined[defined.length - 1];
+  return [
+    `${label}, ${range}: minimum ${formatY(min.y)} at ${formatX(min.x)}`,
+    `maximum ${formatY(max.y)} at ${formatX(max.x)}`,
+    `trending ${describeTrend(first.y, last.y, formatY)}`,
+    `last value ${formatY(last.y)} at ${formatX(last.x)}.`,
+  ].join(", ");
+};
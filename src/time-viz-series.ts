@@ -0,0 +1,94 @@
+import { LitElement, css } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import type {
+  AggregateMethod,
+  ChartDataRow,
+  GapPolicy,
+  SeriesMarkType,
+  StepPosition,
+  TimeVizSeriesConfig,
+  YAxisPosition,
+} from "./types";
+import { parseYValue } from "./load-data";
+
+/**
+ * Declares a series of a `<time-viz>` chart in HTML, as one of its children.
+ * @description
+ * The series reads the `field` of each row as a number, with empty values as
+ * missing. The other attributes match the options of `TimeVizSeriesConfig`. The
+ * properties are reflected, so the chart sees every change as an attribute change.
+ * @example
+ * ```html
+ * <time-viz src="data.csv">
+ *   <time-viz-x field="date"></time-viz-x>
+ *   <time-viz-series field="revenue" label="Revenue" color="#c00" axis="right">
+ *   </time-viz-series>
+ * </time-viz>
+ * ```
+ */
+@customElement("time-viz-series")
+export class TimeVizSeries extends LitElement {
+  public static styles = css`
+    :host {
+      display: none;
+    }
+  `;
+
+  @property({ type: String, reflect: true })
+  declare field: string;
+
+  @property({ type: String, reflect: true })
+  declare label: string;
+
+  @property({ type: String, reflect: true })
+  declare color: string | undefined;
+
+  @property({ type: String, reflect: true })
+  declare axis: YAxisPosition | undefined;
+
+  @property({ type: String, reflect: true })
+  declare type: SeriesMarkType | undefined;
+
+  @property({ type: String, reflect: true })
+  declare step: StepPosition | undefined;
+
+  @property({ type: Number, reflect: true })
+  declare baseline: number | undefined;
+
+  @property({ type: String, attribute: "gap-policy", reflect: true })
+  declare gapPolicy: GapPolicy | undefined;
+
+  @property({ type: String, reflect: true })
+  declare aggregate: AggregateMethod | undefined;
+
+  constructor() {
+    super();
+    this.field = "";
+    this.label = "";
+  }
+
+  /**
+   * Builds the configuration of the series.
+   * @returns The series configuration, labeled by its field when it has no label.
+   */
+  public toSeriesConfig(): TimeVizSeriesConfig {
+    const field = this.field;
+    return {
+      accessor: (row: ChartDataRow) => parseYValue(row[field]),
+      label: this.label || field,
+      color: this.color,
+      axis: this.axis,
+      type: this.type,
+      step: this.step,
+      baseline: this.baseline,
+      gapPolicy: this.gapPolicy,
+      aggregate: this.aggregate,
+    };
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "time-viz-series": TimeVizSeries;
+  }
+}
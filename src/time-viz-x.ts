@@ -0,0 +1,76 @@
+import { LitElement, css } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import type { ChartDataRow } from "./types";
+import { createXParser } from "./load-data";
+
+/**
+ * Declares the X values of a `<time-viz>` chart in HTML, as one of its children.
+ * @description
+ * It takes the place of the `x-field` and `parse-format` attributes of the chart.
+ * The properties are reflected, so the chart sees every change as an attribute change.
+ * @example
+ * ```html
+ * <time-viz src="data.csv">
+ *   <time-viz-x field="date" parse="%Y-%m-%d"></time-viz-x>
+ * </time-viz>
+ * ```
+ */
+@customElement("time-viz-x")
+export class TimeVizX extends LitElement {
+  public static styles = css`
+    :host {
+      display: none;
+    }
+  `;
+
+  @property({ type: String, reflect: true })
+  declare field: string;
+
+  @property({ type: String, reflect: true })
+  declare label: string;
+
+  @property({ type: String, reflect: true })
+  declare parse: string;
+
+  constructor() {
+    super();
+    this.field = "date";
+    this.label = "";
+    this.parse = "";
+  }
+
+  /**
+   * Builds the configuration of the X values.
+   * @description
+   * Each row is parsed once, the first time it is read. Dates and numbers are kept
+   * as they are, so rows parsed before can be read again.
+   * @param timeZone - The time zone of the text dates.
+   * @returns The X configuration, labeled by its field when it has no label, with an
+   * accessor that returns `null` for the values that cannot be parsed.
+   */
+  public toXSerie(timeZone: string): {
+    accessor: (row: ChartDataRow) => Date | number | null;
+    label: string;
+  } {
+    const field = this.field;
+    const parseX = createXParser(this.parse, timeZone);
+    const values = new WeakMap<ChartDataRow, Date | number | null>();
+    return {
+      accessor: (row) => {
+        let value = values.get(row);
+        if (value === undefined) {
+          value = parseX(row[field]);
+          values.set(row, value);
+        }
+        return value;
+      },
+      label: this.label || field,
+    };
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "time-viz-x": TimeVizX;
+  }
+}
@@ -1,28 +1,212 @@
 import { LitElement, html, css } from "lit";
+import type { ComplexAttributeConverter } from "lit";
 import { customElement, property, query, state } from "lit/decorators.js";
 import { createRef, ref } from "lit/directives/ref.js";
-import { select, scaleOrdinal, schemeCategory10, style } from "d3";
+import { guard } from "lit/directives/guard.js";
+import {
+  extent,
+  format,
+  select,
+  scaleOrdinal,
+  schemeCategory10,
+  style,
+} from "d3";
 import type {
+  AggregateMethod,
+  ResampleInterval,
   TimeVizConfig,
   TimeVizSeriesConfig,
   ChartDataRow,
+  ChartRenderer,
+  DataFormat,
+  DownsampleMethod,
+  GapPolicy,
+  LegendPosition,
   MarginConfig,
+  StackMode,
+  TimeVizAnnotation,
+  TimeVizEventMap,
+  TimeVizPalette,
+  TimeVizRangePreset,
+  TooltipMode,
+  XScaleType,
 } from "./types";
 import { createTimeVizChart } from "./d3-time-viz";
+import { createTimeVizOverview } from "./d3-time-viz-overview";
+import { downloadBlob, rasterizeSvg, serializeSvg, toCsv } from "./export";
+import { createLegendClickHandlers } from "./legend-click";
+import {
+  createXParser,
+  guessDataFormat,
+  loadRows,
+  parseYValue,
+} from "./load-data";
+import { toXValue } from "./x-scale";
+import { resolvePalette } from "./palette";
+import { resample } from "./resample";
+import { summarizeSeries } from "./summary";
+import { TimeVizSeries } from "./time-viz-series";
+import { TimeVizX } from "./time-viz-x";
+import { fromZonedDate, isValidTimeZone, toZonedDate } from "./time-zone";
 import "tipviz";
 import { TipVizTooltip } from "tipviz";
 
+/**
+ * Formats a date as the value of an `<input type="datetime-local">`.
+ * @param date - The date to format, holding the wall-clock time of the time zone as UTC.
+ * @returns The date in `YYYY-MM-DDTHH:mm:ss` format.
+ */
+const toDateTimeInputValue = (date: Date): string =>
+  date.toISOString().slice(0, 19);
+
+/**
+ * The range presets shown by default, computed back from the last row of the data.
+ */
+const DEFAULT_RANGE_PRESETS: TimeVizRangePreset[] = [
+  { label: "Last hour", duration: 60 * 60 * 1000 },
+  { label: "Last 24h", duration: 24 * 60 * 60 * 1000 },
+  { label: "Last 7 days", duration: 7 * 24 * 60 * 60 * 1000 },
+  {
+    label: "Month to date",
+    start: (max) => new Date(Date.UTC(max.getUTCFullYear(), max.getUTCMonth())),
+  },
+  {
+    label: "YTD",
+    start: (max) => new Date(Date.UTC(max.getUTCFullYear(), 0)),
+  },
+  { label: "All" },
+];
+
+/**
+ * Converts a comma-separated attribute, like `selected-series` or `y-fields`, to a
+ * list of names. A missing attribute is `null`, which selects all of them.
+ */
+const listConverter: ComplexAttributeConverter<string[] | null> = {
+  fromAttribute: (value) =>
+    value === null
+      ? null
+      : value
+          .split(",")
+          .map((label) => label.trim())
+          .filter(Boolean),
+  toAttribute: (labels) => labels?.join(","),
+};
+
+/**
+ * The most rows listed by the data table, to keep large datasets responsive.
+ */
+const MAX_TABLE_ROWS = 1000;
+
+/**
+ * Escapes the special characters of a text to write it in HTML.
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * The inline style of the color swatches of the default tooltip.
+ */
+const TOOLTIP_SWATCH_STYLE =
+  "display: inline-block; width: 10px; height: 10px; margin-right: 6px; border-radius: 2px";
+
+/**
+ * The resample intervals of the controls, with their labels.
+ */
+const RESAMPLE_INTERVAL_OPTIONS: Array<[ResampleInterval | "none", string]> = [
+  ["none", "Raw data"],
+  ["minute", "Minute"],
+  ["hour", "Hour"],
+  ["day", "Day"],
+  ["week", "Week"],
+  ["month", "Month"],
+  ["quarter", "Quarter"],
+  ["year", "Year"],
+];
+
+/**
+ * The aggregates of the controls, with their labels.
+ */
+const AGGREGATE_OPTIONS: Array<[AggregateMethod, string]> = [
+  ["mean", "Mean"],
+  ["sum", "Sum"],
+  ["min", "Min"],
+  ["max", "Max"],
+  ["last", "Last"],
+  ["count", "Count"],
+];
+
+/**
+ * The charts of each `sync-group`, which share their cursor, and optionally their
+ * visible range and hidden series.
+ */
+const SYNC_GROUPS = new Map<string, Set<TimeViz>>();
+
+/**
+ * The CSS custom properties of the theme, inlined in the exported SVG documents
+ * since they are not inherited outside of the page.
+ */
+const THEME_PROPERTIES = [
+  "--time-viz-background",
+  "--time-viz-text-color",
+  "--time-viz-muted-color",
+  "--time-viz-border-color",
+  "--time-viz-grid-color",
+  "--time-viz-cursor-color",
+  "--time-viz-annotation-color",
+  "--time-viz-threshold-color",
+  "--time-viz-range-color",
+  "--time-viz-error-color",
+];
+
 @customElement("time-viz")
 export class TimeViz extends LitElement {
   public static styles = css`
     :host {
+      --time-viz-background: white;
+      --time-viz-text-color: #222;
+      --time-viz-muted-color: #666;
+      --time-viz-border-color: #e0e0e0;
+      --time-viz-control-background: white;
+      --time-viz-control-border-color: #ccc;
+      --time-viz-accent-color: #007acc;
+      --time-viz-accent-text-color: white;
+      --time-viz-grid-color: #e0e0e0;
+      --time-viz-cursor-color: #666;
+      --time-viz-annotation-color: #444;
+      --time-viz-threshold-color: #d0021b;
+      --time-viz-range-color: #f5a623;
+      --time-viz-error-color: #c62828;
+
       display: block;
       width: 100%;
       height: 100%;
+      color: var(--time-viz-text-color);
+      color-scheme: light dark;
       font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto,
         sans-serif;
     }
 
+    @media (prefers-color-scheme: dark) {
+      :host {
+        --time-viz-background: #1e1e1e;
+        --time-viz-text-color: #e0e0e0;
+        --time-viz-muted-color: #a0a0a0;
+        --time-viz-border-color: #3a3a3a;
+        --time-viz-control-background: #2a2a2a;
+        --time-viz-control-border-color: #555;
+        --time-viz-accent-color: #3794ff;
+        --time-viz-accent-text-color: white;
+        --time-viz-grid-color: #3a3a3a;
+        --time-viz-cursor-color: #a0a0a0;
+        --time-viz-annotation-color: #c0c0c0;
+        --time-viz-threshold-color: #ff6b6b;
+        --time-viz-range-color: #f5a623;
+        --time-viz-error-color: #ff8a80;
+      }
+    }
+
     section {
       display: flex;
       flex-direction: column;
@@ -46,6 +230,59 @@ export class TimeViz extends LitElement {
       gap: 1rem;
     }
 
+    .series-picker {
+      position: relative;
+      font-size: 0.9em;
+
+      summary {
+        padding: 0.5rem;
+        border: 1px solid var(--time-viz-control-border-color);
+        border-radius: 4px;
+        background: var(--time-viz-control-background);
+        cursor: pointer;
+      }
+
+      &[inert] summary {
+        opacity: 0.5;
+      }
+
+      .series-picker-menu {
+        position: absolute;
+        z-index: 1;
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+        min-width: 12rem;
+        margin-top: 0.25rem;
+        padding: 0.5rem;
+        border: 1px solid var(--time-viz-control-border-color);
+        border-radius: 4px;
+        background: var(--time-viz-control-background);
+        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      }
+
+      .series-picker-actions {
+        display: flex;
+        gap: 0.5rem;
+      }
+
+      ul {
+        max-height: 12rem;
+        margin: 0;
+        padding: 0;
+        overflow-y: auto;
+        list-style: none;
+      }
+
+      label {
+        display: flex;
+        align-items: center;
+        gap: 0.4rem;
+        padding: 0.15rem 0;
+        cursor: pointer;
+      }
+    }
+
     .controls-right {
       display: flex;
       align-items: center;
@@ -54,20 +291,28 @@ export class TimeViz extends LitElement {
 
     select {
       padding: 0.5rem;
-      border: 1px solid #ccc;
+      border: 1px solid var(--time-viz-control-border-color);
       border-radius: 4px;
-      background: white;
+      background: var(--time-viz-control-background);
+      color: inherit;
       font-size: 0.9em;
     }
 
-    input[type="date"] {
+    input[type="datetime-local"],
+    input[type="number"],
+    input[type="search"] {
       padding: 0.4rem;
-      border: 1px solid #ccc;
+      border: 1px solid var(--time-viz-control-border-color);
       border-radius: 4px;
-      background: white;
+      background: var(--time-viz-control-background);
+      color: inherit;
       font-size: 0.9em;
     }
 
+    input[type="number"] {
+      width: 8em;
+    }
+
     figure {
       flex: 1;
       margin: 0;
@@ -76,30 +321,131 @@ export class TimeViz extends LitElement {
       min-height: 0;
     }
 
-    svg {
+    .plot {
+      position: relative;
+      flex: 1;
+      min-height: 0;
+      border: 1px solid var(--time-viz-border-color);
+      background: var(--time-viz-background);
+
+      svg:focus-visible {
+        outline: 2px solid var(--time-viz-cursor-color);
+        outline-offset: -2px;
+      }
+
+      .status {
+        position: absolute;
+        inset: 0;
+        z-index: 1;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        margin: 0;
+        padding: 1rem;
+        background: color-mix(
+          in srgb,
+          var(--time-viz-background) 80%,
+          transparent
+        );
+        color: var(--time-viz-muted-color);
+        text-align: center;
+      }
+
+      .status.error {
+        color: var(--time-viz-error-color);
+      }
+
+      svg {
+        position: relative;
+        display: block;
+        width: 100%;
+        height: 100%;
+      }
+
+      canvas {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+        opacity: 0.6;
+        pointer-events: none;
+      }
+    }
+
+    svg.overview {
+      flex: none;
       width: 100%;
-      height: 100%;
-      border: 1px solid #e0e0e0;
-      background: white;
+      height: 4rem;
+      border: 1px solid var(--time-viz-border-color);
+      border-top: none;
+      background: var(--time-viz-background);
+
+      .serie {
+        fill: none;
+        stroke-width: 1;
+      }
+    }
+
+    .data-table {
+      flex: none;
+      max-height: 16rem;
+      margin-top: 0.5rem;
+      overflow: auto;
+      font-size: 0.8em;
+
+      table {
+        width: 100%;
+        border-collapse: collapse;
+      }
+
+      caption {
+        padding-bottom: 0.25rem;
+        font-weight: 600;
+        text-align: left;
+      }
+
+      th,
+      td {
+        padding: 0.25rem 0.5rem;
+        border-bottom: 1px solid var(--time-viz-border-color);
+        text-align: right;
+      }
+
+      th:first-child {
+        text-align: left;
+      }
+    }
+
+    .visually-hidden {
+      position: absolute;
+      width: 1px;
+      height: 1px;
+      overflow: hidden;
+      clip-path: inset(50%);
+      white-space: nowrap;
     }
 
     button {
       padding: 0.5rem 1rem;
-      border: 1px solid #007acc;
+      border: 1px solid var(--time-viz-accent-color);
       border-radius: 0.25em;
-      background: #007acc;
-      color: white;
+      background: var(--time-viz-accent-color);
+      color: var(--time-viz-accent-text-color);
       cursor: pointer;
       font-size: 0.9em;
       transition: background-color 0.2s;
 
       &:hover {
-        background: darken(#007acc, 5%);
+        background: color-mix(
+          in srgb,
+          var(--time-viz-accent-color) 90%,
+          black
+        );
       }
 
       &:disabled {
-        background: #ccc;
-        border-color: #ccc;
+        background: var(--time-viz-control-border-color);
+        border-color: var(--time-viz-control-border-color);
         cursor: not-allowed;
       }
     }
@@ -116,7 +462,7 @@ export class TimeViz extends LitElement {
     }
 
     .grid {
-      stroke: #e0e0e0;
+      stroke: var(--time-viz-grid-color);
       stroke-width: 1;
       stroke-dasharray: 2, 2;
 
@@ -132,6 +478,16 @@ export class TimeViz extends LitElement {
       .serie {
         fill: none;
         stroke-width: 2;
+
+        &.area {
+          fill-opacity: 0.4;
+          stroke: none;
+        }
+
+        &.bar,
+        &.scatter {
+          stroke: none;
+        }
       }
 
       &:has(.serie:hover, .point:hover) .series-group:not(:hover) {
@@ -149,17 +505,22 @@ export class TimeViz extends LitElement {
 
     .cursor {
 
-      &.hidden {
+      &.hidden,
+      &.missing {
         visibility: hidden;
       }
 
       &.point {
-        fill: white;
+        fill: var(--time-viz-background);
         stroke-width: 2;
       }
 
+      &.point.focused {
+        stroke-width: 4;
+      }
+
       &.vertical-line {
-        stroke: #666;
+        stroke: var(--time-viz-cursor-color);
         stroke-width: 1;
         stroke-dasharray: 3, 3;
         pointer-events: none;
@@ -170,21 +531,109 @@ export class TimeViz extends LitElement {
       pointer-events: none;
 
       text {
+        fill: currentColor;
+        font-size: 0.8em;
+      }
+
+      &.interactive {
+        pointer-events: all;
+        cursor: pointer;
+      }
+
+      &.hidden {
+        opacity: 0.4;
+      }
+
+      &:focus-visible {
+        outline: 2px solid var(--time-viz-cursor-color);
+        outline-offset: 2px;
+      }
+    }
+
+    ul.legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem 1rem;
+      margin: 0 0 0.5rem;
+      padding: 0;
+      list-style: none;
+
+      button.legend-item {
+        display: flex;
+        align-items: center;
+        gap: 0.4rem;
+        padding: 0.1rem 0.25rem;
+        border: none;
+        background: none;
+        font: inherit;
         font-size: 0.8em;
+        pointer-events: all;
+        cursor: pointer;
+      }
+
+      button.legend-item:disabled {
+        cursor: default;
+        color: inherit;
       }
 
-      rect {
-        width: 1em;
-        height: 1em;
-        display: inline-block;
-        margin-right: 0.5rem;
+      .legend-square {
+        width: 0.9em;
+        height: 0.9em;
       }
     }
 
     .axis-label {
+      fill: currentColor;
       font-size: 0.8em;
       text-anchor: middle;
     }
+
+    .annotation {
+      .annotation-label {
+        font-size: 0.7em;
+        fill: var(--time-viz-annotation-color);
+      }
+
+      &.range {
+        rect {
+          fill: var(--time-viz-range-color);
+          fill-opacity: 0.15;
+          pointer-events: visiblePainted;
+        }
+      }
+
+      &.marker line {
+        stroke: var(--time-viz-annotation-color);
+        stroke-width: 1;
+        stroke-dasharray: 4, 2;
+      }
+
+      &.threshold {
+        line {
+          stroke: var(--time-viz-threshold-color);
+          stroke-width: 1;
+          stroke-dasharray: 6, 3;
+        }
+
+        .annotation-label {
+          text-anchor: end;
+          fill: var(--time-viz-threshold-color);
+        }
+      }
+
+      &.callout {
+        circle {
+          fill: none;
+          stroke: var(--time-viz-annotation-color);
+          stroke-width: 1.5;
+        }
+
+        line {
+          stroke: var(--time-viz-annotation-color);
+          stroke-width: 1;
+        }
+      }
+    }
   `;
 
   @property({ type: Boolean, attribute: "is-static" })
@@ -211,31 +660,150 @@ export class TimeViz extends LitElement {
   @property({ type: String, attribute: "format-y-axis" })
   declare formatYAxis: string;
 
+  @property({ type: Number, attribute: "y-ticks-right" })
+  declare yTicksRight: number;
+
+  @property({ type: String, attribute: "format-y-axis-right" })
+  declare formatYAxisRight: string;
+
+  @property({ type: String, attribute: "y-axis-right-label" })
+  declare yAxisRightLabel: string;
+
   @property({ type: String, attribute: "y-axis-label" })
   declare yAxisLabel: string;
 
   @property({ type: String, attribute: "x-axis-label" })
   declare xAxisLabel: string;
 
+  @property({ type: Boolean })
+  declare overview: boolean;
+
+  @property({ type: String, attribute: "stack-mode" })
+  declare stackMode: StackMode;
+
+  @property({ type: String, attribute: "gap-policy" })
+  declare gapPolicy: GapPolicy;
+
+  @property({ type: Number, attribute: "gap-threshold" })
+  declare gapThreshold: number;
+
+  @property({ type: String })
+  declare renderer: ChartRenderer;
+
+  @property({ type: String })
+  declare downsample: DownsampleMethod;
+
+  @property({ type: Number, attribute: "max-points" })
+  declare maxPoints: number;
+
+  @property({ type: Number, attribute: "window-duration" })
+  declare windowDuration: number;
+
+  @property({ type: Boolean })
+  declare exportable: boolean;
+
+  @property({ type: String, attribute: "x-type" })
+  declare xType: XScaleType;
+
+  @property({ type: String, attribute: "time-zone" })
+  declare timeZone: string;
+
+  @property({ attribute: false })
+  declare presets: TimeVizRangePreset[];
+
+  @property({ type: String, attribute: "resample-interval" })
+  declare resampleInterval: ResampleInterval | "none";
+
+  @property({ type: String })
+  declare aggregate: AggregateMethod;
+
+  @property({ type: String, attribute: "legend-position" })
+  declare legendPosition: LegendPosition;
+
+  @property({
+    attribute: "selected-series",
+    converter: listConverter,
+    reflect: true,
+  })
+  declare selectedSeries: string[] | null;
+
+  @property({ type: String, attribute: "tooltip-mode" })
+  declare tooltipMode: TooltipMode;
+
+  @property({ attribute: "palette" })
+  declare palette: TimeVizPalette;
+
+  @property({ type: Boolean, attribute: "show-data-table" })
+  declare showDataTable: boolean;
+
+  @property({ type: String, attribute: "sync-group" })
+  declare syncGroup: string;
+
+  @property({ type: Boolean, attribute: "sync-range" })
+  declare syncRange: boolean;
+
+  @property({ type: Boolean, attribute: "sync-series" })
+  declare syncSeries: boolean;
+
+  @property({ type: String })
+  declare src: string;
+
+  @property({ type: String })
+  declare format: DataFormat | "";
+
+  @property({ type: String, attribute: "x-field" })
+  declare xField: string;
+
+  @property({ attribute: "y-fields", converter: listConverter })
+  declare yFields: string[] | null;
+
+  @property({ type: String, attribute: "parse-format" })
+  declare parseFormat: string;
+
   @state()
   private declare _config: TimeVizConfig;
   @state()
   private declare _data: ChartDataRow[];
   @state()
-  private declare _selectedSeries: string;
-  @state()
   private declare _hiddenSeries: Set<string>;
   @state()
-  private declare _startDate: string;
+  private declare _seriesSearch: string;
+  @state()
+  private declare _rangeStart: string;
+  @state()
+  private declare _rangeEnd: string;
   @state()
-  private declare _endDate: string;
+  private declare _rangeMin: string;
   @state()
-  private declare _minDate: string;
+  private declare _rangeMax: string;
   @state()
-  private declare _maxDate: string;
+  private declare _loading: boolean;
+  @state()
+  private declare _loadError: string;
+  @state()
+  private declare _announcement: string;
 
   #svgRef = createRef<SVGElement>();
+  #overviewRef = createRef<SVGElement>();
+  #canvasRef = createRef<HTMLCanvasElement>();
   #colorScale = scaleOrdinal(schemeCategory10);
+  #resampledData: ChartDataRow[] | null = null;
+  #loadController: AbortController | null = null;
+  #loadedRows: ChartDataRow[] | null = null;
+  #sourceConfig: TimeVizConfig | null = null;
+  // The X accessor of the <time-viz-x> child, returning null for invalid values
+  #parseX: ((row: ChartDataRow) => Date | number | null) | null = null;
+  #hasTooltipContent = false;
+  #chart: ReturnType<typeof createTimeVizChart> | null = null;
+  #legendClick = createLegendClickHandlers((label, isolate) =>
+    this.#handleLegendToggle(label, isolate)
+  );
+  // The last range and selection received from the sync group, not to send them back
+  #syncedRange = "";
+  #syncedSeries = "";
+  #childObserver = new MutationObserver((records) =>
+    this.#handleChildrenChange(records)
+  );
   @query("#d3-tooltip")
   private declare _tooltip: TipVizTooltip;
 
@@ -249,13 +817,18 @@ export class TimeViz extends LitElement {
     this.yTicks = 5;
     this.formatXAxis = "%Y-%m-%d";
     this.formatYAxis = ".2f";
+    this.yTicksRight = 5;
+    this.formatYAxisRight = ".2f";
     this._data = [];
-    this._selectedSeries = "All";
     this._hiddenSeries = new Set<string>();
-    this._startDate = "";
-    this._endDate = "";
-    this._minDate = "";
-    this._maxDate = "";
+    this._seriesSearch = "";
+    this._rangeStart = "";
+    this._rangeEnd = "";
+    this._rangeMin = "";
+    this._rangeMax = "";
+    this._loading = false;
+    this._loadError = "";
+    this._announcement = "";
     this._config = {
       data: [],
       xSerie: { accessor: (d: ChartDataRow) => d.date as Date },
@@ -263,238 +836,1703 @@ export class TimeViz extends LitElement {
     };
     this.yAxisLabel = "";
     this.xAxisLabel = "";
+    this.yAxisRightLabel = "";
+    this.overview = false;
+    this.stackMode = "none";
+    this.gapPolicy = "break";
+    this.gapThreshold = 0;
+    this.renderer = "svg";
+    this.downsample = "none";
+    this.maxPoints = 0;
+    this.windowDuration = 0;
+    this.exportable = false;
+    this.xType = "time";
+    this.timeZone = "local";
+    this.presets = DEFAULT_RANGE_PRESETS;
+    this.resampleInterval = "none";
+    this.aggregate = "mean";
+    this.legendPosition = "top";
+    this.tooltipMode = "point";
+    this.palette = schemeCategory10;
+    this.selectedSeries = null;
+    this.showDataTable = false;
+    this.syncGroup = "";
+    this.syncRange = false;
+    this.syncSeries = false;
+    this.src = "";
+    this.format = "";
+    this.xField = "date";
+    this.yFields = null;
+    this.parseFormat = "";
+  }
+
+  public connectedCallback(): void {
+    super.connectedCallback();
+    this.#childObserver.observe(this, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+    });
+    this.#joinSyncGroup(this.syncGroup);
+  }
+
+  public disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.#childObserver.disconnect();
+    this.#leaveSyncGroup(this.syncGroup);
   }
 
   /**
    * Sets the configuration for the time series visualization.
+   * @description
+   * The `<time-viz-x>` and `<time-viz-series>` children, if any, take the place of
+   * the `xSerie` and `ySeries` of the configuration.
    */
   public set config(cfg: TimeVizConfig) {
+    this.#sourceConfig = cfg;
+    cfg = this.#applyChildren(cfg);
     this._config = cfg;
-    this._data = [...cfg.data];
-    this._selectedSeries = "All";
-    this._hiddenSeries = new Set<string>();
+    this._data = this.#applyWindow([...cfg.data]);
+    this.#resampleData();
+    this.#keepSelectedSeries();
 
     if (this._data.length) {
-      const dates = this._data.map((d) =>
-        this._config.xSerie.accessor(d)
-      ) as Date[];
-      const minDate = new Date(Math.min(...dates.map((d) => d.getTime())));
-      const maxDate = new Date(Math.max(...dates.map((d) => d.getTime())));
-      this._minDate = minDate.toISOString().split("T")[0];
-      this._maxDate = maxDate.toISOString().split("T")[0];
-      this._startDate = this._minDate;
-      this._endDate = this._maxDate;
+      this.#updateExtent();
+      this._rangeStart = this._rangeMin;
+      this._rangeEnd = this._rangeMax;
     }
 
     this.requestUpdate();
   }
 
   /**
-   * Returns the labels for the Y-axis series.
+   * Appends rows to the data of the chart.
+   * @description
+   * The rows must come after the current data. The series selection and the visible
+   * range are kept, unless the visible range ends at the last row: then it is pinned
+   * to "now" and shifts to follow the new rows.
+   * @param rows - The rows to append.
+   * @example
+   * ```ts
+   * chart.appendData([{ date: new Date(), value: 42 }]);
+   * ```
    */
-  public get ySeriesLabels(): string[] {
-    if (!this._config?.ySeries?.length) return [];
-    return this._config.ySeries.map(({ label }) => label);
+  public appendData(rows: ChartDataRow[]): void {
+    if (!rows.length) return;
+    this.#setData([...this._data, ...rows]);
   }
 
   /**
-   * Returns the filtered series based on the selected and hidden series.
+   * Replaces the data of the chart, keeping the series selection and the visible
+   * range, like `appendData`.
+   * @param rows - The new rows of the chart.
    */
-  public get filteredSeries(): TimeVizSeriesConfig[] {
-    if (!this._config?.ySeries?.length) return [];
-    if (this._selectedSeries === "All") {
-      return this._config.ySeries.filter(
-        ({ label }) => !this._hiddenSeries.has(label)
-      );
-    }
-    return this._config.ySeries.filter(
-      ({ label }) =>
-        label === this._selectedSeries && !this._hiddenSeries.has(label)
-    );
+  public updateData(rows: ChartDataRow[]): void {
+    this.#setData([...rows]);
   }
 
-  public get filteredData(): ChartDataRow[] {
-    if (!this._data.length || !this._startDate || !this._endDate) return [];
-    const startDate = new Date(this._startDate);
-    const endDate = new Date(this._endDate);
-    // Adjust for timezone offset by setting hours to noon
-    startDate.setHours(12, 0, 0, 0);
-    endDate.setHours(12, 0, 0, 0);
-
-    return this._data.filter((d) => {
-      const date = this._config.xSerie.accessor(d) as Date;
-      return date >= startDate && date <= endDate;
-    });
+  /**
+   * Dispatches an event of the component, which bubbles out of its shadow root.
+   * @param type - The type of the event.
+   * @param detail - The detail of the event.
+   * @returns {void}
+   */
+  #emit<K extends keyof TimeVizEventMap>(
+    type: K,
+    detail: TimeVizEventMap[K]["detail"]
+  ): void {
+    this.dispatchEvent(
+      new CustomEvent(type, { detail, bubbles: true, composed: true })
+    );
   }
 
   /**
-   * Sets the content of the tooltip.
-   * @param content - A function that returns the HTML content for the tooltip.
-   * @example
-   * ```ts
-   * tooltipContent((d) => `<strong>${d.x}</strong>: ${d.y}`);
-   * ```
+   * Adds the chart to a sync group.
+   * @param group - The name of the group, or an empty string for none.
+   * @returns {void}
    */
-  public tooltipContent(content: (...args: any[]) => string): void {
-    this._tooltip.setHtml(content);
+  #joinSyncGroup(group: string): void {
+    if (!group) return;
+    const charts = SYNC_GROUPS.get(group) ?? new Set<TimeViz>();
+    charts.add(this);
+    SYNC_GROUPS.set(group, charts);
   }
 
   /**
-   * Sets the styles for the tooltip.
-   * @param css - A string containing the CSS styles to apply.
+   * Removes the chart from a sync group.
+   * @param group - The name of the group, or an empty string for none.
    * @returns {void}
-   * @example
-   * ```ts
-   * tooltipStyle(`
-   *   .tooltip {
-   *     background-color: black;
-   *     color: white;
-   *   }
-   * `);
-   * ```
    */
-  public tooltipStyle(css: string): void {
-    if (!css) return;
-    this._tooltip.setStyles(css);
+  #leaveSyncGroup(group: string): void {
+    const charts = SYNC_GROUPS.get(group);
+    if (!charts) return;
+    charts.delete(this);
+    charts.size || SYNC_GROUPS.delete(group);
   }
 
-  protected updated(
-    changedProperties: Map<string | number | symbol, unknown>
-  ): void {
-    if (
-      changedProperties.has("_selectedSeries") ||
-      changedProperties.has("_hiddenSeries") ||
-      changedProperties.has("_config") ||
-      changedProperties.has("_startDate") ||
-      changedProperties.has("_endDate")
-    ) {
-      this.#renderChart();
-    }
+  /**
+   * Returns the other charts of the sync group of the chart.
+   */
+  get #syncPeers(): TimeViz[] {
+    const charts = SYNC_GROUPS.get(this.syncGroup);
+    return charts ? [...charts].filter((chart) => chart !== this) : [];
   }
 
   /**
-   * Handles changes to the selected series.
-   * @param event The change event.
+   * Moves the cursor to the row closest to an X value of another chart of the group.
+   * @param x - The X value of the row under the cursor of the other chart, or `null`
+   * when it left the plot area.
+   * @returns {void}
    */
-  #handleSeriesChange = (event: Event): void => {
-    const target = event.target as HTMLSelectElement;
-    this._selectedSeries = target.value;
-  };
+  #showSyncedCursor(x: Date | number | null): void {
+    const svg = this.#svgRef.value;
+    if (!this.#chart || !svg) return;
+    this.#chart.moveCursor(select(svg), x === null ? null : this.#toChartX(x));
+  }
 
   /**
-   * Handles changes to the start date.
-   * @param event The change event.
+   * Shows the visible range of another chart of the group, within the data of this one.
+   * @param range - The start and end values of the other chart.
+   * @returns {void}
    */
-  #handleStartDateChange = (event: Event): void => {
-    const target = event.target as HTMLInputElement;
-    this._startDate = target.value;
-  };
+  #showSyncedRange([start, end]: [Date | number, Date | number]): void {
+    if (!this.syncRange || !this._data.length) return;
+    const range = this.#clampRange([
+      this.#toChartX(start),
+      this.#toChartX(end),
+    ]);
+    if (!range) return;
+    // The range came from the group, so it is not sent back to it
+    this.#syncedRange = range.join("/");
+    this.#setVisibleRange(...range);
+  }
 
   /**
-   * Handles changes to the end date.
-   * @param event The change event.
+   * Hides the series hidden by another chart of the group, matched by label.
+   * @param hidden - The labels of the series hidden by the other chart.
+   * @returns {void}
    */
-  #handleEndDateChange = (event: Event): void => {
-    const target = event.target as HTMLInputElement;
-    this._endDate = target.value;
-  };
+  #hideSyncedSeries(hidden: string[]): void {
+    if (!this.syncSeries || !this.ySeriesLabels.length) return;
+    this._hiddenSeries = new Set(
+      this.ySeriesLabels.filter((label) => hidden.includes(label))
+    );
+    this.#syncedSeries = `${this.#visibleLabels}`;
+  }
 
   /**
-   * Handles changes to the reset dates.
-   * @returns {void}
+   * Loads the data of the chart from the `src` attribute.
+   * @description
+   * A load still running is aborted, so the last attributes win.
+   * @returns {Promise<void>}
    */
-  #handleResetDates = (): void => {
-    this._startDate = this._minDate;
-    this._endDate = this._maxDate;
-  };
+  async #loadData(): Promise<void> {
+    this.#loadController?.abort();
+    if (!this.src) {
+      this.#loadController = null;
+      this.#loadedRows = null;
+      this._loading = false;
+      this._loadError = "";
+      return;
+    }
+    const controller = new AbortController();
+    this.#loadController = controller;
+    this._loading = true;
+    this._loadError = "";
+
+    try {
+      const format = this.format || guessDataFormat(this.src);
+      this.#loadedRows = await loadRows(this.src, format, controller.signal);
+      this.#setLoadedConfig();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this._loadError = `Failed to load the data: ${
+        error instanceof Error ? error.message : error
+      }`;
+    } finally {
+      if (this.#loadController === controller) {
+        this.#loadController = null;
+        this._loading = false;
+      }
+    }
+  }
 
   /**
-   * Renders the chart.
+   * Sets the configuration of the chart from the rows loaded from `src`.
+   * @description
+   * The X values are parsed as dates or numbers, and the Y values as numbers, with
+   * empty values as missing. The rows without a valid X value are dropped and the
+   * rest are sorted by X. A `<time-viz-x>` child takes the place of the `x-field`
+   * and `parse-format` attributes.
    * @returns {void}
    */
-  #renderChart(): void {
-    if (
-      !this.#svgRef.value ||
-      !this._data.length ||
-      !this._config.ySeries.length
-    )
+  #setLoadedConfig(): void {
+    const rows = this.#loadedRows;
+    if (!rows) return;
+    const xElement = this.querySelector<TimeVizX>(":scope > time-viz-x");
+    const xField = xElement?.field ?? this.xField;
+    const parseX = createXParser(
+      xElement?.parse ?? this.parseFormat,
+      this.timeZone
+    );
+    const xAccessor = (row: ChartDataRow) => row[xField] as Date | number;
+    const data = rows
+      .map((row) => ({ ...row, [xField]: parseX(row[xField]) }))
+      .filter((row) => row[xField] !== null)
+      .sort((a, b) => +xAccessor(a) - +xAccessor(b));
+    if (rows.length && !data.length) {
+      this._loadError = `No valid values in the "${xField}" field`;
       return;
-    const chart = createTimeVizChart()
-      .colorScale(this.#colorScale)
-      .data(this.filteredData)
-      .formatXAxis(this.formatXAxis)
-      .formatYAxis(this.formatYAxis)
-      .isCurved(this.isCurved)
-      .isStatic(this.isStatic)
-      .margin(this.margin)
-      .series(this.filteredSeries)
-      .tooltip(this._tooltip)
-      .transitionTime(this.transitionTime)
-      .xAxisLabel(this.xAxisLabel)
-      .xSerie(this._config.xSerie.accessor)
-      .xTicks(this.xTicks)
-      .yAxisLabel(this.yAxisLabel)
-      .yTicks(this.yTicks);
+    }
+    const yFields =
+      this.yFields ??
+      Object.keys(rows[0] ?? {}).filter((field) => field !== xField);
 
-    select(this.#svgRef.value).call(chart);
+    this._loadError = "";
+    this.config = {
+      data,
+      xSerie: { accessor: xAccessor, label: xField },
+      ySeries: yFields.map((field) => ({
+        label: field,
+        accessor: (row: ChartDataRow) => parseYValue(row[field]),
+      })),
+    };
   }
 
   /**
-   * Renders the time series visualization.
-   * @returns {TemplateResult} The rendered template.
+   * Replaces the `xSerie` and `ySeries` of a configuration with the ones declared by
+   * the `<time-viz-x>` and `<time-viz-series>` children.
+   * @description
+   * The X accessor of a `<time-viz-x>` child is kept apart, so the rows whose X
+   * value it cannot parse are dropped with the rolling window.
+   * @param config - The configuration to complete.
+   * @returns The configuration with the declared series.
    */
-  public render() {
-    const seriesLabels = this.ySeriesLabels;
-    const hasData = this._data.length > 0 && this._config.ySeries.length > 0;
-
-    return html`
+  #applyChildren(config: TimeVizConfig): TimeVizConfig {
+    const xElement = this.querySelector<TimeVizX>(":scope > time-viz-x");
+    const seriesElements = this.querySelectorAll<TimeVizSeries>(
+      ":scope > time-viz-series"
+    );
+    const xSerie = xElement?.toXSerie(this.timeZone);
+    this.#parseX = xSerie?.accessor ?? null;
+    return {
+      ...config,
+      xSerie: xSerie
+        ? {
+            label: xSerie.label,
+            // The rows without an X value never reach the chart
+            accessor: (row) => xSerie.accessor(row) as Date | number,
+          }
+        : config.xSerie,
+      ySeries: seriesElements.length
+        ? [...seriesElements].map((element) => element.toSeriesConfig())
+        : config.ySeries,
+    };
+  }
+
+  /**
+   * Keeps the selection of series, without the series that are not in the config.
+   * @returns {void}
+   */
+  #keepSelectedSeries(): void {
+    if (!this.selectedSeries) return;
+    const labels = new Set(this._config.ySeries.map(({ label }) => label));
+    const selected = this.selectedSeries.filter((label) => labels.has(label));
+    this.selectedSeries = selected.length ? selected : null;
+  }
+
+  /**
+   * Builds the configuration again, from the loaded rows or from the last
+   * configuration set, when the way the rows are read changes.
+   * @description
+   * With a configuration set from JavaScript, only the X and Y series are built
+   * again, so the rows added by `appendData` and `updateData` and the visible range
+   * are kept.
+   * @returns {void}
+   */
+  #refreshConfig(): void {
+    if (this.#loadedRows) {
+      this.#setLoadedConfig();
+    } else if (this.#sourceConfig) {
+      this._config = this.#applyChildren({
+        ...this.#sourceConfig,
+        data: this._data,
+      });
+      this.#keepSelectedSeries();
+      this.#setData(this._data);
+    }
+  }
+
+  /**
+   * Sets the data of the chart without resetting the state of the user.
+   * @param rows - The new rows of the chart.
+   * @returns {void}
+   */
+  #setData(rows: ChartDataRow[]): void {
+    const hasRange = Boolean(this._data.length && this._rangeStart);
+    const isPinned = this._rangeEnd === this._rangeMax;
+    const isFullRange = isPinned && this._rangeStart === this._rangeMin;
+    const span =
+      this.#parseRangeValue(this._rangeEnd) -
+      this.#parseRangeValue(this._rangeStart);
+
+    this._data = this.#applyWindow(rows);
+    this.#resampleData();
+    if (!this._data.length) return;
+    this.#updateExtent();
+
+    const min = this.#parseRangeValue(this._rangeMin);
+    const max = this.#parseRangeValue(this._rangeMax);
+    if (!hasRange || isFullRange) {
+      this._rangeStart = this._rangeMin;
+      this._rangeEnd = this._rangeMax;
+    } else if (isPinned) {
+      this._rangeStart = this.#formatRangeValue(Math.max(min, max - span));
+      this._rangeEnd = this._rangeMax;
+    } else {
+      // Rows dropped by the rolling window can leave the range out of the data
+      const clamp = (value: string): string =>
+        this.#formatRangeValue(
+          Math.max(min, Math.min(this.#parseRangeValue(value), max))
+        );
+      this._rangeStart = clamp(this._rangeStart);
+      this._rangeEnd = clamp(this._rangeEnd);
+    }
+  }
+
+  /**
+   * Keeps the rows within the rolling window set by `max-points` and `window-duration`.
+   * @description
+   * The rows whose X value the `<time-viz-x>` child cannot parse are dropped first.
+   * @param rows - The rows sorted by x.
+   * @returns The rows within the window.
+   */
+  #applyWindow(rows: ChartDataRow[]): ChartDataRow[] {
+    const parseX = this.#parseX;
+    const validRows = parseX
+      ? rows.filter((row) => parseX(row) !== null)
+      : rows;
+    const { accessor: xAccessor } = this._config.xSerie;
+    const accessor = (row: ChartDataRow) => this.#toChartX(xAccessor(row));
+    const lastRow = validRows.at(-1);
+    const minTime =
+      this.windowDuration > 0 && lastRow
+        ? +accessor(lastRow) - this.windowDuration
+        : -Infinity;
+    const windowed = validRows.filter((row) => +accessor(row) >= minTime);
+    return this.maxPoints > 0 ? windowed.slice(-this.maxPoints) : windowed;
+  }
+
+  /**
+   * Updates the minimum and maximum values of the range from the data.
+   * @returns {void}
+   */
+  #updateExtent(): void {
+    // d3.extent avoids spreading a large dataset into Math.min and Math.max
+    const [min = 0, max = 0] = extent(this.#rows, (d) => +this.#xAccessor(d));
+    this._rangeMin = this.#formatRangeValue(min);
+    // The inputs drop the milliseconds, so the last row must not be cut off
+    this._rangeMax = this.#formatRangeValue(
+      this.xType === "time" ? Math.ceil(max / 1000) * 1000 : max
+    );
+  }
+
+  /**
+   * Resamples the data into the time buckets of `resample-interval`.
+   * @description
+   * The buckets start at the wall-clock time of `time-zone`. Resampling only applies
+   * to a time X-axis, and the resampled rows keep their date as an instant in `x`
+   * and the aggregated values of the series by label in `values`.
+   * @returns {void}
+   */
+  #resampleData(): void {
+    if (this.resampleInterval === "none" || this.xType !== "time") {
+      this.#resampledData = null;
+      return;
+    }
+    const { accessor } = this._config.xSerie;
+    this.#resampledData = resample(this._data, {
+      x: (row) => this.#toChartX(accessor(row)),
+      series: this._config.ySeries,
+      interval: this.resampleInterval,
+      aggregate: this.aggregate,
+      utc: true,
+    }).map(({ x, values }) => ({ x: this.#fromChartX(x), values }));
+  }
+
+  /**
+   * Returns the rows drawn by the chart: the resampled rows when resampling is on,
+   * or the rows of the config within the rolling window.
+   */
+  get #rows(): ChartDataRow[] {
+    return this.#resampledData ?? this._data;
+  }
+
+  /**
+   * Returns the series of the config, reading the aggregated values of the
+   * resampled rows when resampling is on.
+   */
+  get #series(): TimeVizSeriesConfig[] {
+    if (!this.#resampledData) return this._config.ySeries;
+    return this._config.ySeries.map((serie) => ({
+      ...serie,
+      accessor: (row) =>
+        (row.values as Record<string, number | null>)[serie.label],
+    }));
+  }
+
+  /**
+   * Returns the X accessor of the rows drawn by the chart.
+   */
+  get #sourceXAccessor(): (row: ChartDataRow) => Date | number {
+    return this.#resampledData
+      ? (row) => row.x as Date
+      : this._config.xSerie.accessor;
+  }
+
+  /**
+   * Returns the X accessor of the rows drawn by the chart, with its values
+   * converted to X values of the chart.
+   */
+  get #xAccessor(): (row: ChartDataRow) => Date | number {
+    const accessor = this.#sourceXAccessor;
+    return (row) => this.#toChartX(accessor(row));
+  }
+
+  /**
+   * Converts an X value to the X value drawn by the chart.
+   * @description
+   * On a time axis, epoch timestamps become dates, and dates become the wall-clock
+   * time of `time-zone` held as UTC. The chart draws them on a UTC scale, so the axis,
+   * the range inputs and the range filter all follow the same time zone.
+   * @param value - The X value of a row.
+   * @returns The X value of the chart.
+   */
+  #toChartX(value: Date | number): Date | number {
+    const x = toXValue(value, this.xType);
+    return x instanceof Date ? toZonedDate(x, this.timeZone) : x;
+  }
+
+  /**
+   * Converts an X value drawn by the chart back to the X value of a row.
+   * @param value - The X value of the chart.
+   * @returns The date on a time axis, or the number on a linear axis.
+   */
+  #fromChartX = (value: Date | number): Date | number =>
+    this.xType === "time"
+      ? fromZonedDate(new Date(+value), this.timeZone)
+      : value;
+
+  /**
+   * Converts the X values of an annotation to X values of the chart.
+   * @param annotation - The annotation of the config.
+   * @returns The annotation drawn by the chart.
+   */
+  #toChartAnnotation(annotation: TimeVizAnnotation): TimeVizAnnotation {
+    switch (annotation.type) {
+      case "marker":
+      case "callout":
+        return { ...annotation, x: this.#toChartX(annotation.x) };
+      case "range":
+        return {
+          ...annotation,
+          start: this.#toChartX(annotation.start),
+          end: this.#toChartX(annotation.end),
+        };
+      default:
+        return annotation;
+    }
+  }
+
+  /**
+   * Parses the value of a range input.
+   * @param value - A date in `YYYY-MM-DDTHH:mm:ss` format on a time axis, or a number.
+   * @returns The value as a timestamp of the chart in milliseconds, or as a number.
+   */
+  #parseRangeValue(value: string): number {
+    // The wall-clock time of the input is held as UTC, like the dates of the chart
+    return this.xType === "time"
+      ? new Date(`${value}Z`).getTime()
+      : Number(value);
+  }
+
+  /**
+   * Formats a value as the value of a range input.
+   * @param value - A timestamp in milliseconds on a time axis, or a number.
+   * @returns The value of the range input.
+   */
+  #formatRangeValue(value: number): string {
+    return this.xType === "time"
+      ? toDateTimeInputValue(new Date(value))
+      : `${value}`;
+  }
+
+  /**
+   * Returns the range of a preset, computed back from the last row of the data.
+   * @param preset - The preset.
+   * @returns The start and end values of the range inputs.
+   */
+  #getPresetRange({ duration, start }: TimeVizRangePreset): [string, string] {
+    const min = this.#parseRangeValue(this._rangeMin);
+    const max = this.#parseRangeValue(this._rangeMax);
+    const presetStart = start
+      ? start(new Date(max)).getTime()
+      : max - (duration ?? Infinity);
+    return [
+      this.#formatRangeValue(Math.max(min, Math.min(presetStart, max))),
+      this._rangeMax,
+    ];
+  }
+
+  /**
+   * Returns the label of the preset that matches the visible range, if any.
+   */
+  get #activePreset(): string {
+    const preset = this.presets.find((preset) => {
+      const [start, end] = this.#getPresetRange(preset);
+      return start === this._rangeStart && end === this._rangeEnd;
+    });
+    return preset?.label ?? "";
+  }
+
+  /**
+   * Returns the labels for the Y-axis series.
+   */
+  public get ySeriesLabels(): string[] {
+    if (!this._config?.ySeries?.length) return [];
+    return this._config.ySeries.map(({ label }) => label);
+  }
+
+  /**
+   * Returns the selected series, listed by the legend, or all the series when
+   * `selectedSeries` is `null`.
+   */
+  get #legendSeries(): TimeVizSeriesConfig[] {
+    const selected = this.selectedSeries;
+    if (!selected) return this.#series;
+    return this.#series.filter(({ label }) => selected.includes(label));
+  }
+
+  /**
+   * Returns the selected series that are not hidden from the legend.
+   */
+  public get filteredSeries(): TimeVizSeriesConfig[] {
+    if (!this._config?.ySeries?.length) return [];
+    return this.#legendSeries.filter(
+      ({ label }) => !this._hiddenSeries.has(label)
+    );
+  }
+
+  /**
+   * Returns the labels of the visible series.
+   */
+  get #visibleLabels(): string[] {
+    return this.filteredSeries.map(({ label }) => label);
+  }
+
+  /**
+   * Selects the given series, in the order of the config.
+   * @param labels - The labels of the series to select.
+   * @returns {void}
+   */
+  #selectSeries(labels: string[]): void {
+    const allLabels = this.ySeriesLabels;
+    const selected = allLabels.filter((label) => labels.includes(label));
+    this.selectedSeries =
+      selected.length === allLabels.length ? null : selected;
+  }
+
+  /**
+   * Adds a series to the selection, if it is not selected yet.
+   * @param label - The label of the series.
+   * @returns {void}
+   */
+  #addToSelection(label: string): void {
+    if (!this.selectedSeries || this.selectedSeries.includes(label)) return;
+    this.#selectSeries([...this.selectedSeries, label]);
+  }
+
+  /**
+   * Shows or hides a series.
+   * @description
+   * Hiding a series keeps it in the selection and in the legend, so
+   * `selectedSeries` does not change. Showing a series that is not selected
+   * adds it to the selection.
+   * @param label - The label of the series.
+   * @returns {void}
+   * @example
+   * ```ts
+   * timeViz.toggleSeries("Revenue");
+   * ```
+   */
+  public toggleSeries(label: string): void {
+    if (!this.ySeriesLabels.includes(label)) return;
+    const hiddenSeries = new Set(this._hiddenSeries);
+    if (this.#visibleLabels.includes(label)) {
+      hiddenSeries.add(label);
+    } else {
+      hiddenSeries.delete(label);
+      this.#addToSelection(label);
+    }
+    this._hiddenSeries = hiddenSeries;
+  }
+
+  /**
+   * Shows a series alone, hiding the others, or shows all the series again when
+   * it is already the only visible one.
+   * @param label - The label of the series.
+   * @returns {void}
+   * @example
+   * ```ts
+   * timeViz.isolateSeries("Revenue");
+   * ```
+   */
+  public isolateSeries(label: string): void {
+    if (!this.ySeriesLabels.includes(label)) return;
+    const visible = this.#visibleLabels;
+    const isIsolated = visible.length === 1 && visible[0] === label;
+    this.#addToSelection(label);
+    this._hiddenSeries = new Set(
+      isIsolated
+        ? []
+        : this.#legendSeries
+            .map((serie) => serie.label)
+            .filter((other) => other !== label)
+    );
+  }
+
+  public get filteredData(): ChartDataRow[] {
+    if (!this._data.length || !this._rangeStart || !this._rangeEnd) return [];
+    const [startDate, endDate] = this.#visibleRange;
+
+    const xAccessor = this.#xAccessor;
+    return this.#rows.filter((d) => {
+      const x = +xAccessor(d);
+      return x >= +startDate && x <= +endDate;
+    });
+  }
+
+  /**
+   * Returns the start and end values of the visible range.
+   */
+  get #visibleRange(): [Date, Date] | [number, number] {
+    if (this.xType === "linear") {
+      return [
+        this.#parseRangeValue(this._rangeStart),
+        this.#parseRangeValue(this._rangeEnd),
+      ];
+    }
+    return [
+      new Date(this.#parseRangeValue(this._rangeStart)),
+      new Date(this.#parseRangeValue(this._rangeEnd)),
+    ];
+  }
+
+  /**
+   * Sets the content of the tooltip.
+   * @param content - A function that returns the HTML content for the tooltip.
+   * @example
+   * ```ts
+   * tooltipContent((d) => `<strong>${d.x}</strong>: ${d.y}`);
+   * ```
+   */
+  public tooltipContent(content: (...args: any[]) => string): void {
+    this.#hasTooltipContent = true;
+    this._tooltip.setHtml(content);
+  }
+
+  /**
+   * Formats the default content of the tooltip, used by the shared tooltip until
+   * `tooltipContent` is called.
+   * @description
+   * It lists the series with a color swatch and the value formatted like its Y axis,
+   * under the X value in the time zone of the chart. It also formats the data of a
+   * single point, with its label and value. When the series are stacked, each value
+   * is followed by the cumulative value of the stack and the share of the row.
+   * @param datum - The data of the tooltip.
+   * @returns The HTML content of the tooltip.
+   */
+  #formatDefaultTooltip = (datum: {
+    x: Date | number;
+    series?: Array<{
+      label: string;
+      color: string;
+      axis?: string;
+      y: unknown;
+      cumulative?: number;
+      share?: number;
+    }>;
+    label?: string;
+    color?: string;
+    axis?: string;
+    y?: unknown;
+    cumulative?: number;
+    share?: number;
+  }): string => {
+    const x =
+      datum.x instanceof Date
+        ? datum.x.toLocaleString(undefined, {
+            timeZone: this.timeZone === "local" ? undefined : this.timeZone,
+          })
+        : datum.x.toLocaleString();
+    const formatLeft = format(this.formatYAxis);
+    const formatRight = format(this.formatYAxisRight);
+    const formatShare = format(".1%");
+    const rows = (datum.series ?? [datum]).map(
+      ({ label = "", color = "currentColor", axis, y, cumulative, share }) => {
+        const formatY = axis === "right" ? formatRight : formatLeft;
+        const stack =
+          cumulative === undefined || share === undefined
+            ? ""
+            : ` (${formatShare(share)}, cumulative ${formatY(cumulative)})`;
+        const value =
+          typeof y === "number" ? `${formatY(y)}${stack}` : "no data";
+        return `
+          <tr>
+            <td style="padding: 2px 0">
+              <span style="${TOOLTIP_SWATCH_STYLE}; background: ${escapeHtml(color)}"></span>${escapeHtml(label)}
+            </td>
+            <td style="padding: 2px 0 2px 12px; text-align: right">${value}</td>
+          </tr>`;
+      }
+    );
+    return `
+      <strong>${escapeHtml(x)}</strong>
+      <table style="border-collapse: collapse">${rows.join("")}</table>
+    `;
+  };
+
+  /**
+   * Sets the styles for the tooltip.
+   * @param css - A string containing the CSS styles to apply.
+   * @returns {void}
+   * @example
+   * ```ts
+   * tooltipStyle(`
+   *   .tooltip {
+   *     background-color: black;
+   *     color: white;
+   *   }
+   * `);
+   * ```
+   */
+  public tooltipStyle(css: string): void {
+    if (!css) return;
+    this._tooltip.setStyles(css);
+  }
+
+  /**
+   * Exports the chart as it is on screen as a standalone SVG document.
+   * @description
+   * The styles of the component are inlined, and the series drawn by the canvas
+   * renderer are embedded as an image.
+   * @returns The SVG document, or an empty string before the chart is rendered.
+   * @example
+   * ```ts
+   * const svg = timeViz.exportSVG();
+   * ```
+   */
+  public exportSVG(): string {
+    if (!this.#svgRef.value) return "";
+    const computed = getComputedStyle(this);
+    const theme = THEME_PROPERTIES.map(
+      (name) => `${name}: ${computed.getPropertyValue(name)};`
+    ).join(" ");
+    return serializeSvg(
+      this.#svgRef.value,
+      `svg { color: ${computed.color}; ${theme} }\n${TimeViz.styles.cssText}`,
+      this.renderer === "canvas" ? this.#canvasRef.value : null,
+      computed.getPropertyValue("--time-viz-background") || "white"
+    );
+  }
+
+  /**
+   * Exports the chart as it is on screen as a PNG image.
+   * @param options - The export options.
+   * @param options.scale - The factor applied to the size of the chart, `2` by default.
+   * @returns A promise that resolves with the PNG image.
+   * @example
+   * ```ts
+   * const png = await timeViz.exportPNG({ scale: 3 });
+   * ```
+   */
+  public async exportPNG({
+    scale = 2,
+  }: { scale?: number } = {}): Promise<Blob> {
+    if (!this.#svgRef.value) throw new Error("The chart is not rendered");
+    if (!Number.isFinite(scale) || scale <= 0) {
+      throw new Error("The scale must be a positive number");
+    }
+    const { width, height } = this.#svgRef.value.getBoundingClientRect();
+    return rasterizeSvg(this.exportSVG(), width, height, scale);
+  }
+
+  /**
+   * Exports the visible rows of the visible series as CSV.
+   * @description
+   * The first column holds the X values and the next ones the values of each
+   * visible series, with the series labels as headers.
+   * @returns The CSV text.
+   * @example
+   * ```ts
+   * const csv = timeViz.exportCSV();
+   * ```
+   */
+  public exportCSV(): string {
+    const { xSerie } = this._config;
+    return toCsv(this.filteredData, [
+      { label: xSerie.label ?? "date", accessor: this.#sourceXAccessor },
+      ...this.filteredSeries.map(({ label, accessor }) => ({
+        label,
+        accessor,
+      })),
+    ]);
+  }
+
+  /**
+   * Updates the colors of the series from the palette.
+   * @description
+   * The labels keep the color they were first given, and new labels take the
+   * next colors of the palette, so a series keeps its color when others are
+   * added, removed or hidden.
+   * @returns {void}
+   */
+  #updateColors(): void {
+    let colors = resolvePalette(this.palette);
+    if (!colors) {
+      const name =
+        typeof this.palette === "string"
+          ? `"${this.palette}"`
+          : `of type ${typeof this.palette}`;
+      console.warn(
+        `[time-viz] Invalid palette ${name}, using schemeCategory10.`
+      );
+      colors = schemeCategory10;
+    }
+    const domain = this.#colorScale.domain();
+    this.#colorScale
+      .domain([
+        ...domain,
+        ...this.ySeriesLabels.filter((label) => !domain.includes(label)),
+      ])
+      .range(colors);
+  }
+
+  protected willUpdate(
+    changedProperties: Map<string | number | symbol, unknown>
+  ): void {
+    if (
+      changedProperties.has("timeZone") &&
+      !isValidTimeZone(this.timeZone)
+    ) {
+      console.warn(
+        `[time-viz] Unknown time zone "${this.timeZone}", using the local time.`
+      );
+      this.timeZone = "local";
+    }
+    if (
+      changedProperties.has("resampleInterval") &&
+      !RESAMPLE_INTERVAL_OPTIONS.some(
+        ([value]) => value === this.resampleInterval
+      )
+    ) {
+      console.warn(
+        `[time-viz] Unknown resample interval "${this.resampleInterval}", using the raw data.`
+      );
+      this.resampleInterval = "none";
+    }
+    if (
+      changedProperties.has("aggregate") &&
+      !AGGREGATE_OPTIONS.some(([value]) => value === this.aggregate)
+    ) {
+      console.warn(
+        `[time-viz] Unknown aggregate "${this.aggregate}", using the mean.`
+      );
+      this.aggregate = "mean";
+    }
+    // The loading state is set before the render, without another update
+    if (changedProperties.has("src") || changedProperties.has("format")) {
+      this.#loadData();
+    }
+    if (
+      changedProperties.has("xField") ||
+      changedProperties.has("yFields") ||
+      changedProperties.has("parseFormat") ||
+      changedProperties.has("timeZone")
+    ) {
+      this.#refreshConfig();
+    }
+    if (changedProperties.has("palette") || changedProperties.has("_config")) {
+      this.#updateColors();
+    }
+    // The range inputs hold dates or numbers according to the type of the X axis,
+    // and the dates follow the time zone
+    if (
+      (changedProperties.has("xType") || changedProperties.has("timeZone")) &&
+      this._data.length
+    ) {
+      this.#resampleData();
+      this.#updateExtent();
+      this._rangeStart = this._rangeMin;
+      this._rangeEnd = this._rangeMax;
+    } else if (
+      (changedProperties.has("resampleInterval") ||
+        changedProperties.has("aggregate") ||
+        changedProperties.has("maxPoints") ||
+        changedProperties.has("windowDuration")) &&
+      this._data.length
+    ) {
+      // The buckets and the rolling window change the extent, so the range is
+      // kept like for new data
+      this.#setData(this._data);
+    }
+  }
+
+  protected updated(
+    changedProperties: Map<string | number | symbol, unknown>
+  ): void {
+    if (changedProperties.has("syncGroup") && this.isConnected) {
+      this.#leaveSyncGroup(
+        (changedProperties.get("syncGroup") as string | undefined) ?? ""
+      );
+      this.#joinSyncGroup(this.syncGroup);
+    }
+    if (
+      changedProperties.has("stackMode") ||
+      changedProperties.has("gapPolicy") ||
+      changedProperties.has("gapThreshold") ||
+      changedProperties.has("renderer") ||
+      changedProperties.has("downsample") ||
+      changedProperties.has("xType") ||
+      changedProperties.has("timeZone") ||
+      changedProperties.has("resampleInterval") ||
+      changedProperties.has("aggregate") ||
+      changedProperties.has("legendPosition") ||
+      changedProperties.has("tooltipMode") ||
+      changedProperties.has("palette") ||
+      changedProperties.has("selectedSeries") ||
+      changedProperties.has("_hiddenSeries") ||
+      changedProperties.has("_config") ||
+      changedProperties.has("_data") ||
+      changedProperties.has("_rangeStart") ||
+      changedProperties.has("_rangeEnd")
+    ) {
+      this.#renderChart();
+    }
+    if (
+      changedProperties.has("overview") ||
+      changedProperties.has("palette") ||
+      changedProperties.has("xType") ||
+      changedProperties.has("timeZone") ||
+      changedProperties.has("resampleInterval") ||
+      changedProperties.has("aggregate") ||
+      changedProperties.has("_config") ||
+      changedProperties.has("_data") ||
+      changedProperties.has("_rangeStart") ||
+      changedProperties.has("_rangeEnd")
+    ) {
+      this.#renderOverview();
+    }
+    // The first values are the defaults or the attribute, not changes
+    if (
+      (changedProperties.has("selectedSeries") &&
+        changedProperties.get("selectedSeries") !== undefined) ||
+      (changedProperties.has("_hiddenSeries") &&
+        changedProperties.get("_hiddenSeries") !== undefined)
+    ) {
+      const selected = this.#visibleLabels;
+      const hidden = this.ySeriesLabels.filter(
+        (label) => !selected.includes(label)
+      );
+      this.#emit("time-viz-series-change", { selected, hidden });
+      const visible = `${selected}`;
+      if (this.syncSeries && visible !== this.#syncedSeries) {
+        this.#syncedSeries = visible;
+        for (const peer of this.#syncPeers) peer.#hideSyncedSeries(hidden);
+      }
+    }
+  }
+
+  /**
+   * Handles the changes of the children, to follow the `<time-viz-x>` and
+   * `<time-viz-series>` elements added, removed or edited.
+   * @param records - The mutations of the children.
+   * @returns {void}
+   */
+  #handleChildrenChange(records: MutationRecord[]): void {
+    const isDefinition = (node: Node) =>
+      node instanceof TimeVizX || node instanceof TimeVizSeries;
+    const hasChanged = records.some(
+      ({ target, addedNodes, removedNodes }) =>
+        isDefinition(target) ||
+        [...addedNodes, ...removedNodes].some(isDefinition)
+    );
+    hasChanged && this.#refreshConfig();
+  }
+
+  /**
+   * Handles a series checked or unchecked in the series picker.
+   * @param event The change event.
+   */
+  #handleSeriesCheck = (event: Event): void => {
+    const target = event.target as HTMLInputElement;
+    const selected = this.#legendSeries.map(({ label }) => label);
+    // The picker shows the visible series, so checking a series hidden from
+    // the legend shows it again
+    const hiddenSeries = new Set(this._hiddenSeries);
+    hiddenSeries.delete(target.value);
+    this._hiddenSeries = hiddenSeries;
+    this.#selectSeries(
+      target.checked
+        ? [...selected, target.value]
+        : selected.filter((label) => label !== target.value)
+    );
+  };
+
+  /**
+   * Handles changes to the search of the series picker.
+   * @param event The input event.
+   */
+  #handleSeriesSearch = (event: Event): void => {
+    const target = event.target as HTMLInputElement;
+    this._seriesSearch = target.value;
+  };
+
+  /**
+   * Selects all the series.
+   * @returns {void}
+   */
+  #handleSelectAllSeries = (): void => {
+    this.selectedSeries = null;
+    this._hiddenSeries = new Set<string>();
+  };
+
+  /**
+   * Unselects all the series, which leaves the chart without series.
+   * @returns {void}
+   */
+  #handleSelectNoSeries = (): void => {
+    this.selectedSeries = [];
+    this._hiddenSeries = new Set<string>();
+  };
+
+  /**
+   * Handles changes to the start of the range.
+   * @param event The change event.
+   */
+  #handleRangeStartChange = (event: Event): void => {
+    const target = event.target as HTMLInputElement;
+    this.#setVisibleRange(target.value, this._rangeEnd);
+  };
+
+  /**
+   * Handles changes to the end of the range.
+   * @param event The change event.
+   */
+  #handleRangeEndChange = (event: Event): void => {
+    const target = event.target as HTMLInputElement;
+    this.#setVisibleRange(this._rangeStart, target.value);
+  };
+
+  /**
+   * Handles a series toggled from the legend.
+   * @param label - The label of the series.
+   * @param isolate - Whether to isolate the series instead of toggling it.
+   * @returns {void}
+   */
+  #handleLegendToggle = (label: string, isolate: boolean): void => {
+    isolate ? this.isolateSeries(label) : this.toggleSeries(label);
+  };
+
+  /**
+   * Handles the cursor moving to another row of the chart, or out of the plot area.
+   * @param row - The row under the cursor, or `null`.
+   * @param index - The index of the row among the visible rows, or `null`.
+   * @returns {void}
+   */
+  #handleCursorMove = (
+    row: ChartDataRow | null,
+    index: number | null
+  ): void => {
+    const x = row ? this.#fromChartX(this.#xAccessor(row)) : null;
+    this.#emit("time-viz-cursor-move", { row, index, x });
+    for (const peer of this.#syncPeers) peer.#showSyncedCursor(x);
+  };
+
+  /**
+   * Handles the text announced when the cursor is moved with the keyboard.
+   * @param message - The X value and the values of the series at the cursor.
+   * @returns {void}
+   */
+  #handleAnnounce = (message: string): void => {
+    this._announcement = message;
+  };
+
+  /**
+   * Handles a click on a data point of the chart.
+   * @param row - The row of the point.
+   * @param index - The index of the row among the visible rows.
+   * @param label - The label of the series of the point.
+   * @returns {void}
+   */
+  #handlePointClick = (
+    row: ChartDataRow,
+    index: number,
+    label: string
+  ): void => {
+    const serie = this.filteredSeries.find((serie) => serie.label === label);
+    this.#emit("time-viz-point-click", {
+      row,
+      index,
+      label,
+      x: this.#fromChartX(this.#xAccessor(row)),
+      y: serie?.accessor(row) ?? null,
+    });
+  };
+
+  /**
+   * Handles changes to the resample interval.
+   * @param event The change event.
+   */
+  #handleResampleIntervalChange = (event: Event): void => {
+    const target = event.target as HTMLSelectElement;
+    this.resampleInterval = target.value as ResampleInterval | "none";
+  };
+
+  /**
+   * Handles changes to the aggregate.
+   * @param event The change event.
+   */
+  #handleAggregateChange = (event: Event): void => {
+    const target = event.target as HTMLSelectElement;
+    this.aggregate = target.value as AggregateMethod;
+  };
+
+  /**
+   * Handles changes to the range preset.
+   * @param event The change event.
+   */
+  #handlePresetChange = (event: Event): void => {
+    const target = event.target as HTMLSelectElement;
+    const preset = this.presets.find(({ label }) => label === target.value);
+    if (!preset) return;
+    this.#setVisibleRange(...this.#getPresetRange(preset));
+  };
+
+  /**
+   * Resets the range to the full extent of the data.
+   * @returns {void}
+   */
+  #handleResetRange = (): void => {
+    this.#setVisibleRange(this._rangeMin, this._rangeMax);
+  };
+
+  /**
+   * Handles the export format chosen in the toolbar by downloading the file.
+   * @param event The change event.
+   * @returns {Promise<void>}
+   */
+  #handleExport = async (event: Event): Promise<void> => {
+    const target = event.target as HTMLSelectElement;
+    const format = target.value;
+    target.value = "";
+    try {
+      if (format === "svg") {
+        const svg = new Blob([this.exportSVG()], { type: "image/svg+xml" });
+        downloadBlob(svg, "time-viz.svg");
+      } else if (format === "png") {
+        downloadBlob(await this.exportPNG(), "time-viz.png");
+      } else if (format === "csv") {
+        const csv = new Blob([this.exportCSV()], { type: "text/csv" });
+        downloadBlob(csv, "time-viz.csv");
+      }
+    } catch (error) {
+      console.warn(`[time-viz] Export to ${format} failed.`, error);
+      this.#emit("time-viz-export-error", { format, error });
+    }
+  };
+
+  /**
+   * Keeps a range of the chart within the extent of the data, shifting it
+   * instead of shrinking it when it is panned past one of the edges.
+   * @param range - The start and end values of the chart.
+   * @returns The start and end values of the range inputs, or `null` when the
+   * range is empty.
+   */
+  #clampRange([start, end]: [Date | number, Date | number]):
+    [string, string] | null {
+    const min = this.#parseRangeValue(this._rangeMin);
+    const max = this.#parseRangeValue(this._rangeMax);
+    const span = Math.min(+end - +start, max - min);
+    const startValue = Math.max(min, Math.min(+start, max - span));
+    const rangeStart = this.#formatRangeValue(startValue);
+    const rangeEnd = this.#formatRangeValue(startValue + span);
+    return this.#parseRangeValue(rangeStart) < this.#parseRangeValue(rangeEnd)
+      ? [rangeStart, rangeEnd]
+      : null;
+  }
+
+  /**
+   * Sets the range chosen by the user, then dispatches it and shares it with
+   * the sync group.
+   * @description
+   * The ranges set by new data are not dispatched, so loading data into one
+   * chart never moves the range of the others.
+   * @param rangeStart - The value of the start input.
+   * @param rangeEnd - The value of the end input.
+   * @returns {void}
+   */
+  #setVisibleRange(rangeStart: string, rangeEnd: string): void {
+    if (rangeStart === this._rangeStart && rangeEnd === this._rangeEnd) return;
+    this._rangeStart = rangeStart;
+    this._rangeEnd = rangeEnd;
+    if (!(rangeStart && rangeEnd)) return;
+    const [chartStart, chartEnd] = this.#visibleRange;
+    const start = this.#fromChartX(chartStart);
+    const end = this.#fromChartX(chartEnd);
+    this.#emit("time-viz-range-change", { start, end });
+    const range = `${rangeStart}/${rangeEnd}`;
+    if (this.syncRange && range !== this.#syncedRange) {
+      this.#syncedRange = range;
+      for (const peer of this.#syncPeers) peer.#showSyncedRange([start, end]);
+    }
+  }
+
+  /**
+   * Handles a range selected on the chart by brushing, zooming or panning.
+   * @param range - The start and end values selected on the chart.
+   * @returns {void}
+   */
+  #handleRangeChange = (range: [Date | number, Date | number]): void => {
+    const clamped = this.#clampRange(range);
+    clamped && this.#setVisibleRange(...clamped);
+  };
+
+  /**
+   * Renders the chart.
+   * @returns {void}
+   */
+  #renderChart(): void {
+    if (
+      !this.#svgRef.value ||
+      !this._data.length ||
+      !this._config.ySeries.length
+    )
+      return;
+    const data = this.filteredData;
+    if (this.tooltipMode === "shared" && !this.#hasTooltipContent) {
+      this._tooltip.setHtml(this.#formatDefaultTooltip);
+    }
+    const chart = createTimeVizChart()
+      .annotations(
+        (this._config.annotations ?? []).map((annotation) =>
+          this.#toChartAnnotation(annotation)
+        )
+      )
+      .canvas(this.#canvasRef.value ?? null)
+      .colorScale(this.#colorScale)
+      .data(data)
+      .datumX(this.#fromChartX)
+      .downsample(this.downsample)
+      .formatXAxis(this.formatXAxis)
+      .formatYAxis(this.formatYAxis)
+      .formatYAxisRight(this.formatYAxisRight)
+      .gapPolicy(this.gapPolicy)
+      .gapThreshold(this.gapThreshold)
+      .isCurved(this.isCurved)
+      .isStatic(this.isStatic)
+      .legendPosition(
+        this.legendPosition === "slot" ? "none" : this.legendPosition
+      )
+      .legendSeries(this.#legendSeries)
+      .margin(this.margin)
+      .onAnnounce(this.#handleAnnounce)
+      .onCursorMove(this.#handleCursorMove)
+      .onLegendToggle(this.#handleLegendToggle)
+      .onPointClick(this.#handlePointClick)
+      .onRangeChange(this.#handleRangeChange)
+      .renderer(this.renderer)
+      .series(this.filteredSeries)
+      .stackMode(this.stackMode)
+      .tooltip(this._tooltip)
+      .tooltipMode(this.tooltipMode)
+      .transitionTime(this.transitionTime)
+      .utc(true)
+      .xAxisLabel(this.xAxisLabel)
+      .xDomain(this.#visibleRange)
+      .xScaleType(this.xType)
+      .xSerie(this.#xAccessor)
+      .xTicks(this.xTicks)
+      .yAxisLabel(this.yAxisLabel)
+      .yAxisRightLabel(this.yAxisRightLabel)
+      .yTicks(this.yTicks)
+      .yTicksRight(this.yTicksRight);
+
+    select(this.#svgRef.value).call(chart);
+    this.#chart = chart;
+    this.#emit("time-viz-render", {
+      series: this.#visibleLabels,
+      rowCount: data.length,
+    });
+  }
+
+  /**
+   * Renders the overview strip below the chart.
+   * @returns {void}
+   */
+  #renderOverview(): void {
+    if (
+      !this.overview ||
+      !this.#overviewRef.value ||
+      !this._data.length ||
+      !this._config.ySeries.length
+    )
+      return;
+    const overview = createTimeVizOverview()
+      .colorScale(this.#colorScale)
+      .data(this.#rows)
+      .formatXAxis(this.formatXAxis)
+      .isCurved(this.isCurved)
+      .margin({ ...this.margin, top: 4, bottom: 20 })
+      .onRangeChange(this.#handleRangeChange)
+      .range(this.#visibleRange)
+      .series(this.#series)
+      .utc(true)
+      .xScaleType(this.xType)
+      .xSerie(this.#xAccessor)
+      .xTicks(this.xTicks);
+
+    select(this.#overviewRef.value).call(overview);
+  }
+
+  /**
+   * Renders the series picker, a list of checkboxes with a search and buttons
+   * to select all or none of the series.
+   * @param hasData - Whether the chart has data to pick series from.
+   * @returns {TemplateResult} The rendered template.
+   */
+  #renderSeriesPicker(hasData: boolean) {
+    const seriesLabels = this.ySeriesLabels;
+    const selected = new Set(this.#visibleLabels);
+    const search = this._seriesSearch.trim().toLowerCase();
+    const summary =
+      selected.size === seriesLabels.length
+        ? "All Series"
+        : `${selected.size} of ${seriesLabels.length} Series`;
+
+    return html`
+      <details class="series-picker" part="series-picker" ?inert=${!hasData}>
+        <summary>${summary}</summary>
+        <div class="series-picker-menu">
+          <input
+            type="search"
+            placeholder="Search series"
+            aria-label="Search series"
+            .value=${this._seriesSearch}
+            @input=${this.#handleSeriesSearch}
+          />
+          <div class="series-picker-actions">
+            <button @click=${this.#handleSelectAllSeries}>All</button>
+            <button @click=${this.#handleSelectNoSeries}>None</button>
+          </div>
+          <ul>
+            ${seriesLabels
+              .filter((label) => label.toLowerCase().includes(search))
+              .map(
+                (label) => html`
+                  <li>
+                    <label>
+                      <input
+                        type="checkbox"
+                        .value=${label}
+                        .checked=${selected.has(label)}
+                        @change=${this.#handleSeriesCheck}
+                      />
+                      ${label}
+                    </label>
+                  </li>
+                `
+              )}
+          </ul>
+        </div>
+      </details>
+    `;
+  }
+
+  /**
+   * Renders the legend as HTML, as the default content of the `legend` slot.
+   * @returns {TemplateResult} The rendered template.
+   */
+  #renderHtmlLegend() {
+    const visibleLabels = new Set(
+      this.filteredSeries.map(({ label }) => label)
+    );
+
+    return html`
+      <slot name="legend">
+        <ul class="legend" part="legend">
+          ${this.#legendSeries.map(
+            ({ label, color }) => html`
+              <li>
+                <button
+                  class="legend-item ${visibleLabels.has(label)
+                    ? ""
+                    : "hidden"}"
+                  aria-pressed=${visibleLabels.has(label)}
+                  ?disabled=${this.isStatic}
+                  @click=${(event: MouseEvent) =>
+                    this.#legendClick.click(event, label)}
+                  @dblclick=${() => this.#legendClick.dblclick(label)}
+                >
+                  <span
+                    class="legend-square"
+                    style="background: ${color || this.#colorScale(label)}"
+                  ></span>
+                  ${label}
+                </button>
+              </li>
+            `
+          )}
+        </ul>
+      </slot>
+    `;
+  }
+
+  /**
+   * Formats an X value of the chart for the data table and the summaries.
+   * @param value - The X value of the chart.
+   * @returns The date and time in the time zone, or the number.
+   */
+  #formatDataX = (value: Date | number): string =>
+    this.xType === "time"
+      ? toDateTimeInputValue(new Date(+value)).replace("T", " ")
+      : `${value}`;
+
+  /**
+   * Renders the text alternatives of the chart: a summary of each visible series,
+   * which describes the chart, and a table of the visible rows, hidden unless
+   * `show-data-table` is set.
+   * @returns {TemplateResult} The rendered template.
+   */
+  #renderDataDescription() {
+    const rows = this.filteredData;
+    const series = this.filteredSeries;
+    const xAccessor = this.#xAccessor;
+    const formatLeft = format(this.formatYAxis);
+    const formatRight = format(this.formatYAxisRight);
+    const formatters = series.map(({ axis }) =>
+      axis === "right" ? formatRight : formatLeft
+    );
+    const formatValue = (value: number | null | undefined, index: number) =>
+      typeof value === "number" && Number.isFinite(value)
+        ? formatters[index](value)
+        : "";
+    const caption =
+      rows.length > MAX_TABLE_ROWS
+        ? `Chart data, first ${MAX_TABLE_ROWS} of ${rows.length} rows`
+        : "Chart data";
+
+    return html`
+      <div id="chart-summary" class="visually-hidden">
+        ${series.map(
+          ({ label, accessor }, index) =>
+            html`<p>
+              ${summarizeSeries(
+                label,
+                rows.map((row) => ({ x: xAccessor(row), y: accessor(row) })),
+                this.#formatDataX,
+                formatters[index]
+              )}
+            </p>`
+        )}
+      </div>
+      <div
+        class="data-table ${this.showDataTable ? "" : "visually-hidden"}"
+        part="data-table"
+      >
+        <table>
+          <caption>
+            ${caption}
+          </caption>
+          <thead>
+            <tr>
+              <th scope="col">
+                ${this.xAxisLabel || this._config.xSerie.label || "X"}
+              </th>
+              ${series.map(({ label }) => html`<th scope="col">${label}</th>`)}
+            </tr>
+          </thead>
+          <tbody>
+            ${rows.slice(0, MAX_TABLE_ROWS).map(
+              (row) =>
+                html`<tr>
+                  <th scope="row">${this.#formatDataX(xAccessor(row))}</th>
+                  ${series.map(
+                    ({ accessor }, index) =>
+                      html`<td>${formatValue(accessor(row), index)}</td>`
+                  )}
+                </tr>`
+            )}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  /**
+   * Renders the time series visualization.
+   * @returns {TemplateResult} The rendered template.
+   */
+  public render() {
+    const hasData = this._data.length > 0 && this._config.ySeries.length > 0;
+    const isTime = this.xType === "time";
+
+    return html`
       <section>
-        <div class="controls">
+        <div class="controls" part="controls">
           <div class="controls-left">
-            <select
-              @change=${this.#handleSeriesChange}
-              .value=${this._selectedSeries}
-              ?disabled=${!hasData}
-            >
-              <option value="All">All Series</option>
-              ${seriesLabels.map(
-                (label) => html`<option value=${label}>${label}</option>`
-              )}
-            </select>
+            ${this.#renderSeriesPicker(hasData)}
+            ${isTime
+              ? html`<select
+                    class="resample-interval"
+                    aria-label="Resample interval"
+                    @change=${this.#handleResampleIntervalChange}
+                    .value=${this.resampleInterval}
+                    ?disabled=${!hasData}
+                  >
+                    ${RESAMPLE_INTERVAL_OPTIONS.map(
+                      ([value, label]) =>
+                        html`<option value=${value}>${label}</option>`
+                    )}
+                  </select>
+                  <select
+                    class="aggregate"
+                    aria-label="Aggregate"
+                    @change=${this.#handleAggregateChange}
+                    .value=${this.aggregate}
+                    ?disabled=${!hasData || this.resampleInterval === "none"}
+                  >
+                    ${AGGREGATE_OPTIONS.map(
+                      ([value, label]) =>
+                        html`<option value=${value}>${label}</option>`
+                    )}
+                  </select>`
+              : null}
           </div>
           <div class="controls-right">
+            ${isTime && this.presets.length
+              ? html`<select
+                  class="presets"
+                  aria-label="Range preset"
+                  @change=${this.#handlePresetChange}
+                  .value=${hasData ? this.#activePreset : ""}
+                  ?disabled=${!hasData}
+                >
+                  <option value="" hidden>Custom</option>
+                  ${this.presets.map(
+                    ({ label }) =>
+                      html`<option value=${label}>${label}</option>`
+                  )}
+                </select>`
+              : null}
             <input
-              type="date"
-              .value=${this._startDate}
-              .min=${this._minDate}
-              .max=${this._endDate}
-              @change=${this.#handleStartDateChange}
+              type=${isTime ? "datetime-local" : "number"}
+              step=${isTime ? "1" : "any"}
+              aria-label="Range start"
+              .value=${this._rangeStart}
+              .min=${this._rangeMin}
+              .max=${this._rangeEnd}
+              @change=${this.#handleRangeStartChange}
               ?disabled=${!hasData}
             />
             <input
-              type="date"
-              .value=${this._endDate}
-              .min=${this._startDate}
-              .max=${this._maxDate}
-              @change=${this.#handleEndDateChange}
+              type=${isTime ? "datetime-local" : "number"}
+              step=${isTime ? "1" : "any"}
+              aria-label="Range end"
+              .value=${this._rangeEnd}
+              .min=${this._rangeStart}
+              .max=${this._rangeMax}
+              @change=${this.#handleRangeEndChange}
               ?disabled=${!hasData}
             />
-            <button @click=${this.#handleResetDates} ?disabled=${!hasData}>
-              Reset Dates
+            <button @click=${this.#handleResetRange} ?disabled=${!hasData}>
+              ${isTime ? "Reset Dates" : "Reset Range"}
             </button>
+            ${this.exportable
+              ? html`<select
+                  class="export"
+                  aria-label="Export the chart"
+                  @change=${this.#handleExport}
+                  ?disabled=${!hasData}
+                >
+                  <option value="">Export…</option>
+                  <option value="svg">SVG</option>
+                  <option value="png">PNG</option>
+                  <option value="csv">CSV</option>
+                </select>`
+              : null}
           </div>
         </div>
 
         <figure>
           <slot name="chart-title" class="chart-title"></slot>
-          <svg
-            ${ref(this.#svgRef)}
-            preserveAspectRatio="xMidYMid meet"
-            role="img"
-            aria-label="Time Series Chart"
-            xmlns="http://www.w3.org/2000/svg"
-            xmlns:xlink="http://www.w3.org/1999/xlink"
-          ></svg>
+          ${this.legendPosition === "slot" ? this.#renderHtmlLegend() : null}
+          <div class="plot" part="plot" aria-busy=${this._loading}>
+            ${this._loading
+              ? html`<p class="status" role="status">Loading data…</p>`
+              : null}
+            ${this._loadError
+              ? html`<p class="status error" role="alert">
+                  ${this._loadError}
+                </p>`
+              : null}
+            ${this.renderer === "canvas"
+              ? html`<canvas ${ref(this.#canvasRef)}></canvas>`
+              : null}
+            <div class="visually-hidden" aria-live="polite">
+              ${this._announcement}
+            </div>
+            <svg
+              ${ref(this.#svgRef)}
+              preserveAspectRatio="xMidYMid meet"
+              role="img"
+              aria-label="Time Series Chart"
+              aria-describedby="chart-summary"
+              xmlns="http://www.w3.org/2000/svg"
+              xmlns:xlink="http://www.w3.org/1999/xlink"
+            ></svg>
+          </div>
+          ${this.overview
+            ? html`<svg
+                ${ref(this.#overviewRef)}
+                class="overview"
+                part="overview"
+                role="img"
+                aria-label="Time Series Overview"
+                xmlns="http://www.w3.org/2000/svg"
+              ></svg>`
+            : null}
+          ${hasData
+            ? guard(
+                [
+                  this._data,
+                  this._config,
+                  this._rangeStart,
+                  this._rangeEnd,
+                  this.selectedSeries,
+                  this._hiddenSeries,
+                  this.resampleInterval,
+                  this.aggregate,
+                  this.xType,
+                  this.timeZone,
+                  this.formatYAxis,
+                  this.formatYAxisRight,
+                  this.xAxisLabel,
+                  this.showDataTable,
+                ],
+                () => this.#renderDataDescription()
+              )
+            : null}
         </figure>
         <tip-viz-tooltip id="d3-tooltip" transition-time="250"></tip-viz-tooltip>
       </section>
@@ -506,4 +2544,6 @@ declare global {
   interface HTMLElementTagNameMap {
     "time-viz": TimeViz;
   }
+
+  interface HTMLElementEventMap extends TimeVizEventMap {}
 }
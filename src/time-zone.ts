@@ -0,0 +1,138 @@
+/**
+ * @module time-zone
+ * @description
+ * This module converts dates between instants and the wall-clock time of a time zone.
+ * A zoned date holds the wall-clock time of the zone as if it were UTC, so UTC scales
+ * and formats show the dates in the zone, whatever the time zone of the browser.
+ */
+
+/**
+ * The formatters of the IANA time zones, created once per zone because creating
+ * a formatter is much slower than using it.
+ */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns the formatter of the wall-clock time of an IANA time zone.
+ * @param timeZone - The IANA time zone.
+ * @returns The formatter.
+ */
+const getZoneFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  const cached = zoneFormatters.get(timeZone);
+  if (cached) return cached;
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  zoneFormatters.set(timeZone, formatter);
+  return formatter;
+};
+
+/**
+ * The offsets of the IANA time zones by hour since the epoch, because formatting the
+ * parts of a date is too slow to do for every row of a large dataset. An hour whose
+ * offset changes within it is cached as `null`.
+ */
+const zoneOffsets = new Map<string, Map<number, number | null>>();
+
+const HOUR = 60 * 60 * 1000;
+
+// Bounds the cache of a time zone, for charts that keep streaming new rows
+const MAX_CACHED_HOURS = 100_000;
+
+/**
+ * Checks whether a time zone is `"local"`, `"UTC"` or a known IANA time zone.
+ * @param timeZone - The time zone.
+ * @returns `true` if the time zone can be used.
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (timeZone === "local" || timeZone.toUpperCase() === "UTC") return true;
+  try {
+    getZoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads the offset of an IANA time zone from UTC at an instant, without the cache.
+ * @param date - The instant.
+ * @param timeZone - The IANA time zone.
+ * @returns The offset in milliseconds, positive east of UTC.
+ */
+const readZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = Object.fromEntries(
+    getZoneFormatter(timeZone)
+      .formatToParts(date)
+      .map(({ type, value }) => [type, Number(value)])
+  );
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  // The formatter drops the milliseconds, so they are dropped from the instant too
+  return wallTime - (date.getTime() - date.getUTCMilliseconds());
+};
+
+/**
+ * Returns the offset of a time zone from UTC at an instant.
+ * @description
+ * The offsets of the IANA time zones are cached by hour, and the hours of a daylight
+ * saving change are read at the instant itself.
+ * @param date - The instant.
+ * @param timeZone - `"local"`, `"UTC"` or an IANA time zone.
+ * @returns The offset in milliseconds, positive east of UTC.
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  if (timeZone === "local") return -date.getTimezoneOffset() * 60_000;
+  if (timeZone.toUpperCase() === "UTC") return 0;
+  let offsets = zoneOffsets.get(timeZone);
+  if (!offsets) {
+    offsets = new Map();
+    zoneOffsets.set(timeZone, offsets);
+  }
+  const hour = Math.floor(date.getTime() / HOUR);
+  let offset = offsets.get(hour);
+  if (offset === undefined) {
+    const start = readZoneOffset(new Date(hour * HOUR), timeZone);
+    const end = readZoneOffset(new Date((hour + 1) * HOUR - 1000), timeZone);
+    offset = start === end ? start : null;
+    if (offsets.size >= MAX_CACHED_HOURS) offsets.clear();
+    offsets.set(hour, offset);
+  }
+  return offset ?? readZoneOffset(date, timeZone);
+};
+
+/**
+ * Converts an instant to the wall-clock time of a time zone, held as UTC.
+ * @param date - The instant.
+ * @param timeZone - `"local"`, `"UTC"` or an IANA time zone.
+ * @returns The zoned date.
+ */
+export const toZonedDate = (date: Date, timeZone: string): Date =>
+  new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+
+/**
+ * Converts the wall-clock time of a time zone, held as UTC, back to an instant.
+ * @description
+ * The offset is read at a first guess of the instant, so a wall-clock time
+ * that does not exist because of a daylight saving change is shifted by the change.
+ * @param date - The zoned date.
+ * @param timeZone - `"local"`, `"UTC"` or an IANA time zone.
+ * @returns The instant.
+ */
+export const fromZonedDate = (date: Date, timeZone: string): Date => {
+  const guess = new Date(date.getTime() - getTimeZoneOffset(date, timeZone));
+  return new Date(date.getTime() - getTimeZoneOffset(guess, timeZone));
+};
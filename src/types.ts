@@ -1,9 +1,91 @@
 export type ChartDataRow = Record<string, unknown>;
 
+export type YAxisPosition = "left" | "right";
+
+export type SeriesMarkType = "line" | "area" | "bar" | "step" | "scatter";
+
+export type StepPosition = "before" | "after" | "middle";
+
+export type StackMode = "none" | "stacked" | "normalized";
+
+export type GapPolicy = "break" | "connect" | "zero" | "carry";
+
+export type ChartRenderer = "svg" | "canvas";
+
+export type DownsampleMethod = "none" | "lttb" | "minmax";
+
+export type XScaleType = "time" | "linear";
+
+export type TooltipMode = "point" | "shared";
+
+export type TimeVizPalette =
+  | string
+  | readonly string[]
+  | ReadonlyArray<readonly string[]>
+  | ((t: number) => string);
+
+export type DataFormat = "csv" | "tsv" | "json" | "ndjson";
+
+export type LegendPosition =
+  "top" | "bottom" | "left" | "right" | "slot" | "none";
+
+export type ResampleInterval =
+  "minute" | "hour" | "day" | "week" | "month" | "quarter" | "year";
+
+export type AggregateMethod = "mean" | "sum" | "min" | "max" | "last" | "count";
+
 export interface TimeVizSeriesConfig<T = ChartDataRow> {
-  accessor: (row: T) => number;
+  accessor: (row: T) => number | null | undefined;
   label: string;
   color?: string;
+  axis?: YAxisPosition;
+  type?: SeriesMarkType;
+  step?: StepPosition;
+  baseline?: number;
+  gapPolicy?: GapPolicy;
+  aggregate?: AggregateMethod;
+}
+
+export interface TimeVizAnnotationBase {
+  label?: string;
+  tooltip?: string;
+  className?: string;
+}
+
+export interface TimeVizMarkerAnnotation extends TimeVizAnnotationBase {
+  type: "marker";
+  x: Date | number;
+}
+
+export interface TimeVizRangeAnnotation extends TimeVizAnnotationBase {
+  type: "range";
+  start: Date | number;
+  end: Date | number;
+}
+
+export interface TimeVizThresholdAnnotation extends TimeVizAnnotationBase {
+  type: "threshold";
+  y: number;
+  axis?: YAxisPosition;
+}
+
+export interface TimeVizCalloutAnnotation extends TimeVizAnnotationBase {
+  type: "callout";
+  x: Date | number;
+  y: number;
+  axis?: YAxisPosition;
+}
+
+export type TimeVizAnnotation =
+  | TimeVizMarkerAnnotation
+  | TimeVizRangeAnnotation
+  | TimeVizThresholdAnnotation
+  | TimeVizCalloutAnnotation;
+
+export interface TimeVizRangePreset {
+  label: string;
+  duration?: number;
+  start?: (max: Date) => Date;
 }
 
 export interface TimeVizConfig<T = ChartDataRow> {
@@ -14,6 +96,50 @@ export interface TimeVizConfig<T = ChartDataRow> {
     // format?: string;
   };
   ySeries: Array<TimeVizSeriesConfig<T>>;
+  annotations?: TimeVizAnnotation[];
+}
+
+export interface TimeVizRangeChangeDetail {
+  start: Date | number;
+  end: Date | number;
+}
+
+export interface TimeVizSeriesChangeDetail {
+  selected: string[];
+  hidden: string[];
+}
+
+export interface TimeVizCursorMoveDetail {
+  row: ChartDataRow | null;
+  index: number | null;
+  x: Date | number | null;
+}
+
+export interface TimeVizPointClickDetail {
+  row: ChartDataRow;
+  index: number;
+  label: string;
+  x: Date | number;
+  y: number | null;
+}
+
+export interface TimeVizExportErrorDetail {
+  format: string;
+  error: unknown;
+}
+
+export interface TimeVizRenderDetail {
+  series: string[];
+  rowCount: number;
+}
+
+export interface TimeVizEventMap {
+  "time-viz-range-change": CustomEvent<TimeVizRangeChangeDetail>;
+  "time-viz-series-change": CustomEvent<TimeVizSeriesChangeDetail>;
+  "time-viz-cursor-move": CustomEvent<TimeVizCursorMoveDetail>;
+  "time-viz-point-click": CustomEvent<TimeVizPointClickDetail>;
+  "time-viz-render": CustomEvent<TimeVizRenderDetail>;
+  "time-viz-export-error": CustomEvent<TimeVizExportErrorDetail>;
 }
 
 export interface MarginConfig {
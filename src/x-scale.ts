@@ -0,0 +1,111 @@
+import * as d3 from "d3";
+import type { XScaleType } from "./types";
+
+/**
+ * @module x-scale
+ * @description
+ * This module provides the X scale shared by the chart and its overview strip.
+ * The X axis is either a time axis of dates or a linear axis of plain numbers,
+ * such as elapsed seconds or sample indexes.
+ */
+
+export type XScale =
+  d3.ScaleTime<number, number> | d3.ScaleLinear<number, number>;
+
+/**
+ * Numbers below this absolute value are read as epoch seconds on a time axis,
+ * since as epoch milliseconds they would all fall within the first days of 1973.
+ */
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+/**
+ * Converts an X value of a row to a date.
+ * @description
+ * Numbers are epoch timestamps, in seconds when they are below 10^11 and in
+ * milliseconds otherwise.
+ * @param value - The X value.
+ * @returns The date of the value.
+ */
+export const toDate = (value: Date | number): Date =>
+  value instanceof Date
+    ? value
+    : new Date(Math.abs(value) < EPOCH_SECONDS_LIMIT ? value * 1000 : value);
+
+/**
+ * Converts an X value of a row to the type of the X axis.
+ * @param value - The X value.
+ * @param type - The type of the X axis.
+ * @returns A date on a time axis, or a number on a linear axis.
+ */
+export const toXValue = (
+  value: Date | number,
+  type: XScaleType
+): Date | number => (type === "time" ? toDate(value) : +value);
+
+/**
+ * Checks whether an X value matches the type of the X axis.
+ * @param value - The X value.
+ * @param type - The type of the X axis.
+ * @returns `true` for a valid date on a time axis, or a finite number on a linear axis.
+ */
+export const isXValue = (value: unknown, type: XScaleType): boolean =>
+  type === "time"
+    ? value instanceof Date && !Number.isNaN(value.getTime())
+    : typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Creates the X scale of the given type.
+ * @param type - The type of the X axis.
+ * @param domain - The first and last X values, as dates or timestamps in milliseconds on a time axis.
+ * @param range - The first and last positions in pixels.
+ * @param utc - Whether a time axis uses UTC instead of the local time.
+ * @returns The X scale.
+ */
+export const createXScale = (
+  type: XScaleType,
+  [start, end]: [Date | number, Date | number],
+  range: [number, number],
+  utc: boolean = false
+): XScale => {
+  if (type === "linear") {
+    return d3.scaleLinear().domain([+start, +end]).range(range);
+  }
+  return (utc ? d3.scaleUtc() : d3.scaleTime())
+    .domain([new Date(+start), new Date(+end)])
+    .range(range);
+};
+
+/**
+ * Returns the tick format of the X axis.
+ * @description
+ * A time axis reads the format as a D3 time format, and a linear axis as a D3 number
+ * format. When the format does not fit a linear axis, like the default date format,
+ * the ticks fall back to the default format of the scale.
+ * @param type - The type of the X axis.
+ * @param format - The format string.
+ * @param scale - The X scale.
+ * @param ticks - The suggested number of ticks.
+ * @param utc - Whether a time axis uses UTC instead of the local time.
+ * @returns The function that formats the tick values.
+ */
+export const getXTickFormat = (
+  type: XScaleType,
+  format: string,
+  scale: XScale,
+  ticks: number,
+  utc: boolean = false
+): ((value: Date | d3.NumberValue) => string) => {
+  if (type === "time") {
+    const formatTime = utc ? d3.utcFormat(format) : d3.timeFormat(format);
+    return (value) => formatTime(new Date(+value));
+  }
+  try {
+    const formatNumber = d3.format(format);
+    return (value) => formatNumber(+value);
+  } catch {
+    const formatNumber = (scale as d3.ScaleLinear<number, number>).tickFormat(
+      ticks
+    );
+    return (value) => formatNumber(+value);
+  }
+};